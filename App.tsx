@@ -1,40 +1,49 @@
 
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, SetStateAction } from 'react';
 import { 
   Upload, Download, Sparkles, RefreshCw, 
   Monitor, LayoutTemplate, User, 
-  Settings2, FileImage, Ghost, Maximize,
+  Settings2, FileImage, FileText, Ghost, Maximize,
   Pin, Copy, Zap, Play, Grid3X3, ZoomIn, ZoomOut, X, Palette,
-  ArrowRight, ArrowDown, Crop, Box, Table, Grid, Layers, Wand2, LayoutGrid, Film, SmilePlus, Keyboard, Repeat, ExternalLink
+  ArrowRight, ArrowDown, Crop, Box, Table, Grid, Layers, Wand2, LayoutGrid, Film, SmilePlus, Keyboard, Repeat, ExternalLink, Scan, Undo2, Redo2, FolderOpen, ListChecks, TriangleAlert
 } from 'lucide-react';
-import { SpriteConfig, ImageDimensions, ProcessingState, GenerationConfig, ImageResolution, SavedAsset, CanvasNodeData, StylePresetId, NodeGroup } from './types';
+import { SpriteConfig, ImageDimensions, ProcessingState, GenerationConfig, ImageResolution, SavedAsset, CanvasNodeData, StylePresetId, NodeGroup, ProjectMeta, ProjectState, ScaleFilter, AnimationFormat, AssetType, AtlasFormat, GridDetectionMethod, CharacterProfile } from './types';
 import { SpriteCanvas } from './components/SpriteCanvas';
 import { PreviewPlayer } from './components/PreviewPlayer';
 import { CanvasNode } from './components/CanvasNode';
 import { ConnectionLine } from './components/ConnectionLine';
 import { SplitFrameEditor } from './components/SplitFrameEditor';
+import { FrameEditorModal } from './components/FrameEditorModal';
 import { GroupTableView } from './components/GroupTableView';
 import { GroupGridView } from './components/GroupGridView';
-import { analyzeSpriteSheet, generateSpriteVariant, generateActionSprite, generateMemeConceptGrid, generateInterpolatedSprite } from './services/geminiService';
-import { generateGif } from './utils/gifBuilder';
-
-const INITIAL_CONFIG: SpriteConfig = {
-  rows: 4,
-  cols: 4,
-  totalFrames: 16,
-  fps: 12,
-  scale: 1,
-  transparent: null,
-  autoTransparent: true,
-  direction: 'row',
-  frameOffsets: {},
-  excludedFrames: []
-};
+import { ProjectsPanel } from './components/ProjectsPanel';
+import { listProjects, createProject, saveProject, loadProject, renameProject, duplicateProject, deleteProject, getLastProjectId, setLastProjectId, DEFAULT_VIEWPORT } from './services/projectStore';
+import { exportProjectFile, importProjectFile, PROJECT_FILE_EXTENSION } from './services/projectFile';
+import { getGenerationProvider, getGenerationProviderLabel } from './services/generationProvider';
+import { generateValidatedSheet, ExpectedGrid } from './utils/generationValidator';
+import { extractPaletteFromImage, formatPalettePrompt, parsePaletteFile, remapImageToPalette } from './utils/palette';
+import { snapImageToPixelGrid, rescaleConfigForPixelSnap } from './utils/pixelSnap';
+import { generateAnimation, getAnimationExtension, ANIMATION_FORMATS } from './utils/animationExporter';
+import { exportAtlas, ATLAS_FORMATS, AtlasExport } from './utils/atlasExporter';
+import { exportPackedAtlas, PackedAtlasSource } from './utils/atlasPacker';
+import { DEFAULT_KEY_TOLERANCE } from './utils/backgroundRemoval';
+import { getFrameRect, getFrameSize } from './utils/slicing';
+import { detectGridFromImage, LOW_CONFIDENCE_THRESHOLD } from './utils/gridDetection';
+import { extractSpritesFromImage } from './utils/spriteExtraction';
+import { DEFAULT_SPRITE_CONFIG } from './utils/spriteConfig';
+import { getGroupName, getGroupFileStem, getUniqueGroupFileStems } from './utils/fileNames';
+import { createGroupBundle, BundleFile } from './utils/groupBundle';
+import { useHistory, HistoryUpdateOptions } from './hooks/useHistory';
+import { useJobQueue } from './hooks/useJobQueue';
+import { JobTask } from './services/jobQueue';
+import { JobsPanel } from './components/JobsPanel';
+import { CharacterProfilePicker } from './components/CharacterProfilePicker';
+import { PaletteLockPanel } from './components/PaletteLockPanel';
 
 // Fixed config for Creative Mode 3x3
 const CREATIVE_3x3_CONFIG: SpriteConfig = {
-    ...INITIAL_CONFIG,
+    ...DEFAULT_SPRITE_CONFIG,
     rows: 3,
     cols: 3,
     totalFrames: 9,
@@ -51,16 +60,70 @@ const STYLE_OPTIONS: { id: StylePresetId; label: string }[] = [
 
 const INTERPOLATION_GRIDS = ['3x3', '4x3', '4x4', '5x5'];
 
+const EXPORT_SCALES = [0.5, 1, 2, 3, 4];
+
+const ASSET_BADGE_STYLES: Record<AssetType, string> = {
+  gif: 'bg-pink-900 text-pink-300',
+  apng: 'bg-violet-900 text-violet-300',
+  webp: 'bg-emerald-900 text-emerald-300',
+  sheet: 'bg-cyan-900 text-cyan-300',
+  atlas: 'bg-amber-900 text-amber-300',
+};
+
+// Toggles that always get their own undo step, even when repeated quickly
+const DISCRETE_CONFIG_KEYS: (keyof SpriteConfig)[] = ['excludedFrames', 'sequence', 'direction', 'layout', 'autoTransparent'];
+// Per-frame maps merge per frame, so nudging two different frames stays two undo steps
+const PER_FRAME_CONFIG_KEYS: (keyof SpriteConfig)[] = ['frameOffsets', 'frameDurations'];
+
+const getChangedFrames = (before: Record<number, unknown> = {}, after: Record<number, unknown> = {}): string[] =>
+    Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+        .filter(index => JSON.stringify(before[Number(index)]) !== JSON.stringify(after[Number(index)]))
+        .sort();
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+const MAX_CONCURRENT_JOBS = 2; // Parallel image generation requests
+
+const MAX_GENERATION_ATTEMPTS = 3; // Per sheet, when the result fails validation
+
+const MAX_REVISIONS = 20; // Pixel-edit revisions kept per group
+
+const generationProvider = getGenerationProvider();
+
+// Optional NodeGroup fields set when a group is created
+type GroupDetails = Partial<Pick<NodeGroup, 'originalSourceUrl' | 'title' | 'validation' | 'profileId'>>;
+
+// Pixel art must stay crisp when upscaled; every other style reads better filtered
+const getScaleFilter = (stylePresetId: StylePresetId): ScaleFilter =>
+  stylePresetId === 'pixel_art' ? 'nearest' : 'smooth';
+
 const App: React.FC = () => {
   // -- App Mode --
   const [viewMode, setViewMode] = useState<'canvas' | 'table' | 'grid'>('canvas');
 
   // -- Multi-Group State --
-  const [groups, setGroups] = useState<Record<string, NodeGroup>>({});
+  // Groups and canvas nodes share one undoable history (lives here so it survives view switches)
+  const {
+    state: editorDocument,
+    setState: setEditorDocument,
+    undo, redo, reset: resetEditorDocument, canUndo, canRedo
+  } = useHistory<{ groups: Record<string, NodeGroup>; nodes: CanvasNodeData[] }>({ groups: {}, nodes: [] });
+  const { groups, nodes } = editorDocument;
   const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [frameEditorGroupId, setFrameEditorGroupId] = useState<string | null>(null);
+
+  const setGroups = (update: SetStateAction<Record<string, NodeGroup>>, options?: HistoryUpdateOptions) =>
+      setEditorDocument(prev => ({
+          ...prev,
+          groups: typeof update === 'function' ? update(prev.groups) : update
+      }), options);
 
   // Nodes for the Infinite Canvas
-  const [nodes, setNodes] = useState<CanvasNodeData[]>([]);
+  const setNodes = (update: SetStateAction<CanvasNodeData[]>, options?: HistoryUpdateOptions) =>
+      setEditorDocument(prev => ({
+          ...prev,
+          nodes: typeof update === 'function' ? update(prev.nodes) : update
+      }), options);
 
   // Generation Configuration (Global Inputs)
   const [genConfig, setGenConfig] = useState<GenerationConfig>({
@@ -75,7 +138,8 @@ const App: React.FC = () => {
     prompt: "",
     actionPrompt: "",
     size: '2K',
-    stylePresetId: 'pixel_art'
+    stylePresetId: 'pixel_art',
+    profileId: null
   });
   
   // State to hold the configuration derived from an uploaded GIF in 'gif_match' mode
@@ -88,14 +152,29 @@ const App: React.FC = () => {
   const [savedAssets, setSavedAssets] = useState<SavedAsset[]>([]);
   const [isAssetsOpen, setIsAssetsOpen] = useState(false);
 
+  // Character profiles (per project)
+  const [profiles, setProfiles] = useState<Record<string, CharacterProfile>>({});
+  const [lockedPalette, setLockedPalette] = useState<string[]>([]);
+
+  // Generation jobs
+  const { jobs, queue: jobQueue } = useJobQueue(MAX_CONCURRENT_JOBS);
+  const [isJobsOpen, setIsJobsOpen] = useState(false);
+  const activeJobCount = jobs.filter(j => j.status === 'queued' || j.status === 'running').length;
+
+  // Animation export format (shared by sidebar, canvas and table exports)
+  const [exportFormat, setExportFormat] = useState<AnimationFormat>('gif');
+  const [atlasFormat, setAtlasFormat] = useState<AtlasFormat>('texturepacker_hash');
+  const [atlasTrim, setAtlasTrim] = useState(true); // Trim transparent borders + tight pack
+
   // -- Infinite Canvas & Viewport State --
   const viewportRef = useRef<HTMLDivElement>(null);
-  const [viewport, setViewport] = useState({ scale: 0.6, x: 50, y: 50 });
+  const [viewport, setViewport] = useState(DEFAULT_VIEWPORT);
   const [isPanning, setIsPanning] = useState(false);
   const panStart = useRef({ x: 0, y: 0 });
   const [isDraggingNode, setIsDraggingNode] = useState<string | null>(null);
   const nodeDragStart = useRef({ x: 0, y: 0 });
   const initialNodePos = useRef({ x: 0, y: 0 });
+  const nodeDragSession = useRef(0); // One undo step per drag
 
   // Load saved template
   useEffect(() => {
@@ -108,14 +187,218 @@ const App: React.FC = () => {
     } catch (e) { console.error(e); }
   }, []);
 
+  // -- Projects (IndexedDB autosave) --
+  const [projects, setProjects] = useState<ProjectMeta[]>([]);
+  const [currentProject, setCurrentProject] = useState<ProjectMeta | null>(null);
+  const [isProjectsOpen, setIsProjectsOpen] = useState(false);
+  const projectStateRef = useRef<ProjectState>({ groups, nodes, savedAssets, viewport, profiles });
+  projectStateRef.current = { groups, nodes, savedAssets, viewport, profiles };
+
+  // Aborted when another project is opened, so late job results don't land in it
+  const projectScopeRef = useRef(new AbortController());
+
+  const applyProject = (meta: ProjectMeta, state: ProjectState) => {
+    projectScopeRef.current.abort();
+    projectScopeRef.current = new AbortController();
+    jobQueue.getJobs()
+        .filter(job => job.status === 'queued' || job.status === 'running')
+        .forEach(job => jobQueue.cancel(job.id));
+    resetEditorDocument({ groups: state.groups, nodes: state.nodes });
+    setSavedAssets(state.savedAssets);
+    setViewport(state.viewport);
+    setProfiles(state.profiles);
+    setGenConfig(prev => prev.profileId && !state.profiles[prev.profileId] ? { ...prev, profileId: null } : prev);
+    setSelectedGroupId(null);
+    setFrameEditorGroupId(null);
+    setCurrentProject(meta);
+    setLastProjectId(meta.id);
+  };
+
+  const refreshProjects = async () => setProjects(await listProjects());
+
+  // Restore the last session (or start a fresh project) on startup
+  const hasRestored = useRef(false);
+  useEffect(() => {
+    if (hasRestored.current) return; // StrictMode runs effects twice
+    hasRestored.current = true;
+    const restore = async () => {
+      try {
+        const list = await listProjects();
+        const lastId = getLastProjectId();
+        const meta = list.find(p => p.id === lastId) || list[0] || await createProject('Untitled Project');
+        applyProject(meta, await loadProject(meta.id));
+        setProjects(await listProjects());
+      } catch (e) {
+        console.error("Could not restore project", e);
+      }
+    };
+    restore();
+  }, []);
+
+  // Autosave shortly after the last change
+  useEffect(() => {
+    if (!currentProject) return;
+    const projectId = currentProject.id;
+    const timer = setTimeout(async () => {
+      try {
+        const meta = await saveProject(projectId, projectStateRef.current);
+        setProjects(prev => prev.map(p => p.id === meta.id ? meta : p));
+      } catch (e) {
+        console.error("Autosave failed", e);
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [groups, nodes, savedAssets, viewport, profiles, currentProject?.id]);
+
+  // Pending edits are written before another project replaces them
+  const flushCurrentProject = async () => {
+    if (currentProject) await saveProject(currentProject.id, projectStateRef.current);
+  };
+
+  const handleOpenProject = async (projectId: string) => {
+    try {
+      await flushCurrentProject();
+      const meta = (await listProjects()).find(p => p.id === projectId);
+      if (!meta) return;
+      applyProject(meta, await loadProject(projectId));
+      await refreshProjects();
+      setIsProjectsOpen(false);
+    } catch (e) {
+      console.error(e);
+      alert("Could not open project.");
+    }
+  };
+
+  const handleCreateProject = async () => {
+    try {
+      await flushCurrentProject();
+      const meta = await createProject(`Project ${projects.length + 1}`);
+      applyProject(meta, await loadProject(meta.id));
+      await refreshProjects();
+      setIsProjectsOpen(false);
+    } catch (e) {
+      console.error(e);
+      alert("Could not create project.");
+    }
+  };
+
+  const handleRenameProject = async (projectId: string, name: string) => {
+    try {
+      const meta = await renameProject(projectId, name);
+      if (currentProject?.id === projectId) setCurrentProject(meta);
+      await refreshProjects();
+    } catch (e) {
+      console.error(e);
+      alert("Could not rename project.");
+    }
+  };
+
+  const handleDuplicateProject = async (projectId: string) => {
+    try {
+      if (projectId === currentProject?.id) await flushCurrentProject();
+      await duplicateProject(projectId);
+      await refreshProjects();
+    } catch (e) {
+      console.error(e);
+      alert("Could not duplicate project.");
+    }
+  };
+
+  const handleDeleteProject = async (projectId: string) => {
+    try {
+      await deleteProject(projectId);
+      const remaining = await listProjects();
+      if (projectId === currentProject?.id) {
+        // Never leave the editor without a project to autosave into
+        const meta = remaining[0] || await createProject('Untitled Project');
+        applyProject(meta, await loadProject(meta.id));
+        setProjects(await listProjects());
+      } else {
+        setProjects(remaining);
+      }
+    } catch (e) {
+      console.error(e);
+      alert("Could not delete project.");
+    }
+  };
+
+  const handleExportProjectFile = async () => {
+    if (!currentProject) return;
+    try {
+      const blob = await exportProjectFile(currentProject.name, projectStateRef.current, genConfig);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.download = `${currentProject.name}.${PROJECT_FILE_EXTENSION}`;
+      link.href = url;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e) {
+      console.error(e);
+      alert("Could not export project.");
+    }
+  };
+
+  // Imported files become a new local project
+  const handleImportProjectFile = async (file: File) => {
+    try {
+      const archive = await importProjectFile(file);
+      await flushCurrentProject();
+      const created = await createProject(archive.name || file.name.replace(/\.[^.]+$/, ''));
+      const meta = await saveProject(created.id, archive.state);
+      applyProject(meta, archive.state);
+      const { generation } = archive;
+      setGenConfig(prev => ({
+        ...prev,
+        prompt: generation.prompt ?? prev.prompt,
+        actionPrompt: generation.actionPrompt ?? prev.actionPrompt,
+        stylePresetId: generation.stylePresetId ?? prev.stylePresetId,
+        size: generation.size ?? prev.size,
+        characterImage: generation.characterImage ?? prev.characterImage,
+        profileId: generation.profileId && archive.state.profiles[generation.profileId] ? generation.profileId : null
+      }));
+      await refreshProjects();
+      setIsProjectsOpen(false);
+    } catch (e: any) {
+      console.error(e);
+      alert(`Could not import project: ${e.message || e}`);
+    }
+  };
+
+  // Undo / redo shortcuts (text fields keep their native undo)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'TEXTAREA' || (target.tagName === 'INPUT' && (target as HTMLInputElement).type !== 'range' && (target as HTMLInputElement).type !== 'checkbox') || target.isContentEditable) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Undo can remove the group that is selected or open in the frame editor
+  useEffect(() => {
+    if (selectedGroupId && !groups[selectedGroupId]) setSelectedGroupId(null);
+    if (frameEditorGroupId && !groups[frameEditorGroupId]) setFrameEditorGroupId(null);
+  }, [groups, selectedGroupId, frameEditorGroupId]);
+
   // -- Helpers --
 
-  const createGroup = (imageUrl: string, dimensions: ImageDimensions, config: SpriteConfig, originalSourceUrl?: string | null): string => {
+  const createGroup = (imageUrl: string, dimensions: ImageDimensions, config: SpriteConfig, details: GroupDetails = {}): string => {
       const groupId = crypto.randomUUID();
       const newGroup: NodeGroup = {
+          ...details,
           id: groupId,
           imageUrl,
-          originalSourceUrl: originalSourceUrl || null,
+          originalSourceUrl: details.originalSourceUrl || null,
           dimensions,
           config,
           createdAt: Date.now()
@@ -127,11 +410,12 @@ const App: React.FC = () => {
   };
 
   const deleteGroup = (groupId: string) => {
-      const newGroups = { ...groups };
-      delete newGroups[groupId];
-      setGroups(newGroups);
-      
-      setNodes(prev => prev.filter(n => n.groupId !== groupId));
+      // One history step for the group and its nodes, so Ctrl+Z brings both back
+      setEditorDocument(prev => {
+          const newGroups = { ...prev.groups };
+          delete newGroups[groupId];
+          return { groups: newGroups, nodes: prev.nodes.filter(n => n.groupId !== groupId) };
+      });
       if (selectedGroupId === groupId) setSelectedGroupId(null);
   };
 
@@ -180,8 +464,7 @@ const App: React.FC = () => {
         const editorHeight = editorImageH + 160; 
 
         // 3. Preview Node Stats
-        const frameW = group.dimensions.width / group.config.cols;
-        const frameH = group.dimensions.height / group.config.rows;
+        const { width: frameW, height: frameH } = getFrameSize(group.config, group.dimensions);
         const frameAspect = frameH > 0 ? frameW / frameH : 1;
         
         let previewW = 320;
@@ -235,7 +518,8 @@ const App: React.FC = () => {
         currentY += rowHeight + GAP_Y;
     });
 
-    setNodes(newNodes);
+    // Layout is derived from the groups, not an edit of its own
+    setNodes(newNodes, { record: false });
   };
 
   // -- Handlers --
@@ -262,7 +546,7 @@ const App: React.FC = () => {
     if (genConfig.templateImage) {
         const img = new Image();
         img.onload = () => {
-            createGroup(genConfig.templateImage!, { width: img.width, height: img.height }, { ...INITIAL_CONFIG, scale: 1 });
+            createGroup(genConfig.templateImage!, { width: img.width, height: img.height }, { ...DEFAULT_SPRITE_CONFIG, scale: 1 });
             setProcessingState({ status: 'idle', progress: 0 });
         };
         img.src = genConfig.templateImage;
@@ -294,12 +578,9 @@ const App: React.FC = () => {
           const cols = Math.ceil(Math.sqrt(frameCount));
           const rows = Math.ceil(frameCount / cols);
           
-          // Determine FPS from first frame duration (duration is in microseconds)
-          const duration = firstFrameResult.image.duration; 
-          let fps = 12;
-          if (duration) {
-              fps = Math.round(1000000 / duration);
-          }
+          // Frame durations are in microseconds; missing ones use the GIF default of 100ms
+          const toMs = (duration: number | null) => duration ? Math.round(duration / 1000) : 100;
+          const durations: number[] = [toMs(firstFrameResult.image.duration)];
 
           // Draw to Canvas
           const canvas = document.createElement('canvas');
@@ -319,10 +600,21 @@ const App: React.FC = () => {
               const col = i % cols;
               const row = Math.floor(i / cols);
               ctx.drawImage(result.image, col * frameW, row * frameH);
+              durations.push(toMs(result.image.duration));
               result.image.close();
               setProcessingState({ status: 'analyzing', progress: (i / frameCount) * 100 });
           }
 
+          // FPS follows the most common duration; the rest become per-frame holds
+          const counts = new Map<number, number>();
+          durations.forEach(d => counts.set(d, (counts.get(d) || 0) + 1));
+          const baseDuration = [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+          const fps = Math.max(1, Math.round(1000 / baseDuration));
+          const frameDurations: Record<number, number> = {};
+          durations.forEach((d, i) => {
+              if (d !== baseDuration) frameDurations[i] = d;
+          });
+
           const dataUrl = canvas.toDataURL('image/png');
           
           setGenConfig(prev => ({ ...prev, templateImage: dataUrl }));
@@ -331,7 +623,8 @@ const App: React.FC = () => {
               cols,
               totalFrames: frameCount,
               fps,
-              direction: 'row'
+              direction: 'row',
+              frameDurations
           });
           setProcessingState({ status: 'idle', progress: 0 });
 
@@ -401,14 +694,15 @@ const App: React.FC = () => {
         if (target === 'main') {
            const img = new Image();
            img.onload = () => {
-              createGroup(res, { width: img.width, height: img.height }, { ...INITIAL_CONFIG, scale: 1 });
+              createGroup(res, { width: img.width, height: img.height }, { ...DEFAULT_SPRITE_CONFIG, scale: 1 }, { title: file.name.replace(/\.[^.]+$/, '') });
            };
            img.src = res;
         } else if (target === 'template') {
           setGenConfig(prev => ({ ...prev, templateImage: res }));
           setIsTemplateSaved(false); 
         } else if (target === 'character') {
-          setGenConfig(prev => ({ ...prev, characterImage: res }));
+          // A new character image no longer matches the selected profile
+          setGenConfig(prev => ({ ...prev, characterImage: res, profileId: null }));
         } else if (target === 'start') {
           setGenConfig(prev => ({ ...prev, startImage: res }));
         } else if (target === 'end') {
@@ -424,13 +718,35 @@ const App: React.FC = () => {
     const group = groups[selectedGroupId];
     setProcessingState({ status: 'analyzing', progress: 0 });
     try {
-      const result = await analyzeSpriteSheet(group.imageUrl!);
-      
-      handleGridUpdate(
-          selectedGroupId, 
-          result.rows ?? group.config.rows, 
-          result.cols ?? group.config.cols
-      );
+      // Local projection-profile detector first; Gemini only when it is unsure
+      const img = new Image();
+      img.src = group.imageUrl!;
+      await img.decode();
+      const local = detectGridFromImage(img);
+
+      let result: { rows?: number; cols?: number; totalFrames?: number } = local;
+      let method: GridDetectionMethod = 'local';
+      if (local.confidence < LOW_CONFIDENCE_THRESHOLD) {
+          try {
+              result = await generationProvider.analyzeSpriteSheet(group.imageUrl!);
+              method = generationProvider.id;
+          } catch (e) {
+              console.warn(`${generationProvider.label} grid detection failed, keeping local result`, e);
+          }
+      }
+
+      const rows = result.rows ?? group.config.rows;
+      const cols = result.cols ?? group.config.cols;
+      const totalFrames = result.totalFrames && result.totalFrames <= rows * cols ? result.totalFrames : rows * cols;
+
+      setGroups(prev => ({
+          ...prev,
+          [selectedGroupId]: {
+              ...prev[selectedGroupId],
+              config: { ...prev[selectedGroupId].config, rows, cols, totalFrames, layout: 'grid', frameRects: undefined },
+              detection: { method, confidence: local.confidence }
+          }
+      }));
       
       setProcessingState({ status: 'idle', progress: 0 });
     } catch (error) {
@@ -438,204 +754,363 @@ const App: React.FC = () => {
     }
   };
 
+  // Free layout: every connected sprite becomes one frame rect
+  const handleExtractSprites = async () => {
+    if (!selectedGroupId || !groups[selectedGroupId]?.imageUrl) return;
+    const group = groups[selectedGroupId];
+    setProcessingState({ status: 'analyzing', progress: 0 });
+    try {
+      const img = new Image();
+      img.src = group.imageUrl!;
+      await img.decode();
+      const { rects, rows, cols } = extractSpritesFromImage(img);
+
+      updateGroupConfig(selectedGroupId, {
+          ...group.config,
+          layout: 'free',
+          rows,
+          cols,
+          totalFrames: rects.length,
+          frameRects: rects,
+          // Per-frame edits referred to the old cells
+          frameOffsets: {},
+          excludedFrames: [],
+          frameDurations: {},
+          sequence: undefined
+      });
+      setProcessingState({ status: 'idle', progress: 0 });
+    } catch (error) {
+      console.error("Sprite Extraction Failed", error);
+      setProcessingState({ status: 'idle', progress: 0, error: 'No sprites found.' });
+    }
+  };
+
+  // --- Palette lock ---
+  const handleExtractPalette = async (colorCount: number) => {
+    if (!selectedGroupId || !groups[selectedGroupId]?.imageUrl) return;
+    setProcessingState({ status: 'analyzing', progress: 0 });
+    try {
+      setLockedPalette(await extractPaletteFromImage(groups[selectedGroupId].imageUrl!, colorCount));
+      setProcessingState({ status: 'idle', progress: 0 });
+    } catch (error) {
+      console.error("Palette extraction failed", error);
+      setProcessingState({ status: 'idle', progress: 0, error: 'Palette extraction failed.' });
+    }
+  };
+
+  const handleImportPalette = async (file: File) => {
+    try {
+      setLockedPalette(await parsePaletteFile(file));
+    } catch (e: any) {
+      console.error(e);
+      alert(`Could not import palette: ${e.message || e}`);
+    }
+  };
+
+  // Remapped copy as a new group, so the original sheet is kept
+  const handleRemapToPalette = async (dither: boolean) => {
+    if (!selectedGroupId || !groups[selectedGroupId]?.imageUrl || lockedPalette.length === 0) return;
+    const group = groups[selectedGroupId];
+    setProcessingState({ status: 'rendering', progress: 0 });
+    try {
+      const imageUrl = await remapImageToPalette(group.imageUrl!, lockedPalette, dither);
+      createGroup(imageUrl, group.dimensions, { ...group.config }, {
+          originalSourceUrl: group.imageUrl,
+          title: `${getGroupName(group)}-${lockedPalette.length}c${dither ? '-dither' : ''}`,
+          profileId: group.profileId
+      });
+      setProcessingState({ status: 'idle', progress: 0 });
+    } catch (error) {
+      console.error("Palette remap failed", error);
+      setProcessingState({ status: 'idle', progress: 0, error: 'Palette remap failed.' });
+    }
+  };
+
+  // True low-res copy of blurry model "pixel art" as a new group
+  const handlePixelSnap = async () => {
+    if (!selectedGroupId || !groups[selectedGroupId]?.imageUrl) return;
+    const group = groups[selectedGroupId];
+    setProcessingState({ status: 'analyzing', progress: 0 });
+    try {
+      const result = await snapImageToPixelGrid(group.imageUrl!);
+      if (!result) {
+        setProcessingState({ status: 'idle', progress: 0, error: 'No pixel grid found.' });
+        return;
+      }
+      const config = rescaleConfigForPixelSnap(group.config, result.width / group.dimensions.width, result.height / group.dimensions.height);
+      createGroup(result.imageUrl, { width: result.width, height: result.height }, config, {
+          originalSourceUrl: group.imageUrl,
+          title: `${getGroupName(group)}-px${Math.round(result.grid.pixelSize)}`,
+          profileId: group.profileId
+      });
+      setProcessingState({ status: 'idle', progress: 0 });
+    } catch (error) {
+      console.error("Pixel snap failed", error);
+      setProcessingState({ status: 'idle', progress: 0, error: 'Pixel snap failed.' });
+    }
+  };
+
+  // Loads a generated sheet and adds it as a group, unless its job was cancelled meanwhile
+  const addGeneratedGroup = async (signal: AbortSignal, imageUrl: string, config: SpriteConfig, details: GroupDetails = {}) => {
+      const img = new Image();
+      img.src = imageUrl;
+      await img.decode();
+      if (signal.aborted) return;
+      createGroup(imageUrl, { width: img.width, height: img.height }, config, details);
+      if (details.profileId && (!details.validation || details.validation.passed)) {
+          await adoptProfileReference(details.profileId, imageUrl);
+      }
+  };
+
+  // The first accepted sheet of a profile becomes its canonical reference and palette source
+  const adoptProfileReference = async (profileId: string, imageUrl: string) => {
+      if (!profiles[profileId] || profiles[profileId].referenceSheet) return;
+      try {
+          const palette = await extractPaletteFromImage(imageUrl);
+          setProfiles(prev => prev[profileId] && !prev[profileId].referenceSheet
+              ? { ...prev, [profileId]: { ...prev[profileId], referenceSheet: imageUrl, palette } }
+              : prev);
+      } catch (e) {
+          console.warn("Could not extract profile palette", e);
+      }
+  };
+
+  const handleCreateProfile = () => {
+      if (!genConfig.characterImage) return;
+      const profile: CharacterProfile = {
+          id: crypto.randomUUID(),
+          name: `Character ${Object.keys(profiles).length + 1}`,
+          characterImage: genConfig.characterImage,
+          stylePresetId: genConfig.stylePresetId,
+          palette: [],
+          referenceSheet: null,
+          createdAt: Date.now()
+      };
+      setProfiles(prev => ({ ...prev, [profile.id]: profile }));
+      setGenConfig(prev => ({ ...prev, profileId: profile.id }));
+  };
+
+  const handleSelectProfile = (profileId: string | null) => {
+      const profile = profileId ? profiles[profileId] : null;
+      setGenConfig(prev => profile
+          ? { ...prev, profileId: profile.id, characterImage: profile.characterImage, stylePresetId: profile.stylePresetId }
+          : { ...prev, profileId: null });
+  };
+
+  const handleRenameProfile = (profileId: string, name: string) => {
+      setProfiles(prev => prev[profileId] ? { ...prev, [profileId]: { ...prev[profileId], name } } : prev);
+  };
+
+  // The next accepted sheet becomes the new reference
+  const handleResetProfileReference = (profileId: string) => {
+      setProfiles(prev => prev[profileId] ? { ...prev, [profileId]: { ...prev[profileId], referenceSheet: null, palette: [] } } : prev);
+  };
+
+  const handleDeleteProfile = (profileId: string) => {
+      setProfiles(prev => {
+          const next = { ...prev };
+          delete next[profileId];
+          return next;
+      });
+      if (genConfig.profileId === profileId) setGenConfig(prev => ({ ...prev, profileId: null }));
+  };
+
+  // Regenerates sheets that come back with the wrong grid, a non-white background, empty or uneven frames
+  const generateValidated = (generate: () => Promise<string>, expected: ExpectedGrid, signal: AbortSignal, reportProgress: (progress: number) => void) =>
+      generateValidatedSheet(generate, expected, MAX_GENERATION_ATTEMPTS, signal, (attempt) => {
+          reportProgress(10 + ((attempt - 1) * 80) / MAX_GENERATION_ATTEMPTS);
+      });
+
+  // Every sheet is its own queued job: bounded concurrency, cancellable, retryable
   const handleGenerateSprite = async () => {
     const aiStudio = (window as any).aistudio;
-    if (aiStudio && !(await aiStudio.hasSelectedApiKey())) {
+    if (generationProvider.requiresApiKey && aiStudio && !(await aiStudio.hasSelectedApiKey())) {
         try { await aiStudio.openSelectKey(); } catch (e) { return; }
     }
 
-    if (genConfig.mode === 'interpolated') {
-        if (!genConfig.startImage) {
+    // Jobs keep the inputs from the moment of the click. A profile pins character, style and palette
+    const profile = genConfig.profileId ? profiles[genConfig.profileId] : undefined;
+    const settings: GenerationConfig = profile
+        ? {
+            ...genConfig,
+            characterImage: profile.characterImage,
+            stylePresetId: profile.stylePresetId,
+            prompt: [genConfig.prompt, formatPalettePrompt(profile.palette)].filter(Boolean).join(' ')
+          }
+        : genConfig;
+    const profileId = profile?.id;
+    const profileReference = profile?.referenceSheet ?? null;
+    const scaleFilter = getScaleFilter(settings.stylePresetId);
+    // Jobs stay scoped to this project, also when retried after a switch
+    const projectSignal = projectScopeRef.current.signal;
+    const enqueue = (label: string, task: JobTask) => {
+        setIsJobsOpen(true);
+        return jobQueue.enqueue(label, (signal, reportProgress) => task(AbortSignal.any([signal, projectSignal]), reportProgress));
+    };
+
+    if (settings.mode === 'interpolated') {
+        if (!settings.startImage) {
             setProcessingState({ status: 'idle', progress: 0, error: 'Start Frame required' });
             return;
         }
-        setProcessingState({ status: 'generating', progress: 10 });
-        try {
-            const resultBase64 = await generateInterpolatedSprite(
-                genConfig.startImage,
-                genConfig.endImage,
-                genConfig.templateImage,
-                genConfig.interpolationGrid,
-                genConfig.stylePresetId,
-                genConfig.size
-            );
-
-            const [rows, cols] = genConfig.interpolationGrid.split('x').map(Number);
-            const totalFrames = rows * cols;
-            
-            await new Promise<void>((resolve) => {
-                 const img = new Image();
-                 img.onload = () => {
-                     createGroup(resultBase64, { width: img.width, height: img.height }, { ...INITIAL_CONFIG, rows, cols, totalFrames }, genConfig.startImage);
-                     resolve();
-                 };
-                 img.src = resultBase64;
-            });
-            setProcessingState({ status: 'idle', progress: 0 });
-        } catch (e) {
-            console.error(e);
-            setProcessingState({ status: 'idle', progress: 0, error: 'Interpolation Failed' });
-        }
+        const [rows, cols] = settings.interpolationGrid.split('x').map(Number);
+        enqueue(`Interpolate ${settings.interpolationGrid}`, async (signal, reportProgress) => {
+            const { imageUrl, validation } = await generateValidated(() => generationProvider.generateInterpolatedSprite(
+                settings.startImage!,
+                settings.endImage,
+                settings.templateImage,
+                settings.interpolationGrid,
+                settings.stylePresetId,
+                settings.size,
+                profile ? formatPalettePrompt(profile.palette) : '',
+                profileReference,
+                signal
+            ), { rows, cols }, signal, reportProgress);
+            reportProgress(90);
+            await addGeneratedGroup(signal, imageUrl, { ...DEFAULT_SPRITE_CONFIG, rows, cols, totalFrames: rows * cols, scaleFilter }, { originalSourceUrl: settings.startImage, title: `transition-${settings.interpolationGrid}`, validation, profileId });
+        });
+        setProcessingState({ status: 'idle', progress: 0 });
         return;
     }
     
     // --- MODE: ACTION / CREATE ---
-    if (genConfig.mode === 'action') {
+    if (settings.mode === 'action') {
         // Validation
-        if (!genConfig.characterImage) {
+        if (!settings.characterImage) {
             setProcessingState({ status: 'idle', progress: 0, error: 'Character required' });
             return;
         }
+        const characterImage = settings.characterImage;
 
         // SUB-MODE: AUTO MEME PACK
-        if (genConfig.createSubMode === 'meme_pack') {
-             setProcessingState({ status: 'generating', progress: 5 });
-             try {
+        if (settings.createSubMode === 'meme_pack') {
+             enqueue('Meme pack concepts (3x3)', async (signal, reportProgress) => {
                  // 1. Generate 9-Grid
-                 const memeGridBase64 = await generateMemeConceptGrid(genConfig.characterImage, genConfig.stylePresetId);
-                 setProcessingState({ status: 'analyzing', progress: 20 });
-                 
+                 reportProgress(10);
+                 const memeGridBase64 = await generationProvider.generateMemeConceptGrid(
+                     characterImage,
+                     settings.stylePresetId,
+                     profile ? formatPalettePrompt(profile.palette) : '',
+                     profileReference,
+                     signal
+                 );
+                 reportProgress(80);
+
                  // 2. Slice Grid
                  const slices = await sliceGridImage(memeGridBase64);
-                 
-                 // 3. Generate 9 animations
-                 for (let i = 0; i < slices.length; i++) {
-                     const slice = slices[i];
-                     const progress = 20 + Math.round(((i + 1) / slices.length) * 70);
-                     setProcessingState({ status: 'generating', progress });
-     
-                     // Use the slice as the Layout/Pose reference for the animation
-                     const animatedSprite = await generateActionSprite(
-                         genConfig.characterImage,
-                         "Animate this sticker", 
-                         "Matches the style and text of the reference image.",
-                         genConfig.size,
-                         genConfig.stylePresetId,
-                         null, 
-                         slice // Layout Reference is the static sticker
-                     );
-     
-                     await new Promise<void>((resolve) => {
-                         const img = new Image();
-                         img.onload = () => {
-                             createGroup(animatedSprite, { width: img.width, height: img.height }, CREATIVE_3x3_CONFIG, slice);
-                             resolve();
-                         };
-                         img.src = animatedSprite;
+                 if (signal.aborted) return;
+
+                 // 3. One job per sticker, so a failed sticker doesn't stop the others
+                 slices.forEach((slice, i) => {
+                     enqueue(`Meme ${i + 1}/${slices.length}`, async (signal, reportProgress) => {
+                         // Use the slice as the Layout/Pose reference for the animation
+                         const { imageUrl, validation } = await generateValidated(() => generationProvider.generateActionSprite(
+                             characterImage,
+                             "Animate this sticker", 
+                             "Matches the style and text of the reference image.",
+                             settings.size,
+                             settings.stylePresetId,
+                             profileReference,
+                             slice, // Layout Reference is the static sticker
+                             signal
+                         ), CREATIVE_3x3_CONFIG, signal, reportProgress);
+                         reportProgress(90);
+                         await addGeneratedGroup(signal, imageUrl, { ...CREATIVE_3x3_CONFIG, scaleFilter }, { originalSourceUrl: slice, title: `meme-${i + 1}`, validation, profileId });
                      });
-                 }
-                 setProcessingState({ status: 'idle', progress: 0 });
-             } catch (e) {
-                 console.error(e);
-                 setProcessingState({ status: 'idle', progress: 0, error: 'Meme Pack Gen Failed' });
-             }
+                 });
+             });
+             setProcessingState({ status: 'idle', progress: 0 });
              return;
         } 
         
         // SUB-MODE: MANUAL ACTIONS
-        else {
-             if (!genConfig.actionPrompt.trim()) {
-                 setProcessingState({ status: 'idle', progress: 0, error: 'Enter actions.' });
-                 return;
-             }
-             
-             setProcessingState({ status: 'generating', progress: 0 });
-             try {
-                  const prompts = genConfig.actionPrompt.split('\n').map(p => p.trim()).filter(p => p.length > 0);
-                  let referenceImage: string | null = null;
-        
-                  for (let i = 0; i < prompts.length; i++) {
-                      const prompt = prompts[i];
-                      setProcessingState({ status: 'generating', progress: Math.round(((i) / prompts.length) * 100) });
-                      
-                      const resultBase64 = await generateActionSprite(
-                          genConfig.characterImage!, 
-                          prompt, 
-                          genConfig.prompt, 
-                          genConfig.size, 
-                          genConfig.stylePresetId,
-                          referenceImage,
-                          null // No layout reference, just prompts
-                      );
-                      
-                      // Use the first result as reference for style consistency
-                      referenceImage = resultBase64;
-        
-                      await new Promise<void>((resolve) => {
-                          const img = new Image();
-                          img.onload = () => {
-                              createGroup(resultBase64, { width: img.width, height: img.height }, CREATIVE_3x3_CONFIG, null);
-                              resolve();
-                          };
-                          img.src = resultBase64;
-                      });
-                  }
-                  setProcessingState({ status: 'idle', progress: 0 });
-             } catch(e) {
-                  console.error(e);
-                  setProcessingState({ status: 'idle', progress: 0, error: 'Generation Failed' });
-             }
-             return;
+        const prompts = settings.actionPrompt.split('\n').map(p => p.trim()).filter(p => p.length > 0);
+        if (prompts.length === 0) {
+            setProcessingState({ status: 'idle', progress: 0, error: 'Enter actions.' });
+            return;
         }
+
+        // Without a profile reference the first result is the style reference for the others;
+        // they wait for it (and go without a reference if it fails or is cancelled)
+        let referenceImage: string | null = profileReference;
+        let firstJobId: string | null = null;
+        prompts.forEach((prompt, i) => {
+            const jobId = enqueue(prompt, async (signal, reportProgress) => {
+                if (i > 0 && firstJobId && !profileReference) {
+                    await jobQueue.whenSettled(firstJobId);
+                    if (signal.aborted) return;
+                }
+                const { imageUrl, validation } = await generateValidated(() => generationProvider.generateActionSprite(
+                    characterImage, 
+                    prompt, 
+                    settings.prompt, 
+                    settings.size, 
+                    settings.stylePresetId,
+                    referenceImage,
+                    null, // No layout reference, just prompts
+                    signal
+                ), CREATIVE_3x3_CONFIG, signal, reportProgress);
+                if (i === 0 && !profileReference) referenceImage = imageUrl;
+                reportProgress(90);
+                await addGeneratedGroup(signal, imageUrl, { ...CREATIVE_3x3_CONFIG, scaleFilter }, { title: prompt, validation, profileId });
+            });
+            if (i === 0) firstJobId = jobId;
+        });
+        setProcessingState({ status: 'idle', progress: 0 });
+        return;
     }
 
     // --- OTHER MODES ---
-    if (genConfig.mode === 'multi_template' && genConfig.templateFiles.length === 0) {
+    if (settings.mode === 'multi_template' && settings.templateFiles.length === 0) {
          setProcessingState({ status: 'idle', progress: 0, error: 'Select template files.' });
          return;
     }
-    if (genConfig.mode === 'gif_match' && !genConfig.templateImage) {
+    if (settings.mode === 'gif_match' && !settings.templateImage) {
         setProcessingState({ status: 'idle', progress: 0, error: 'Upload a GIF first.' });
         return;
     }
-    if (genConfig.mode === 'template' && !genConfig.templateImage) {
+    if (settings.mode === 'template' && !settings.templateImage) {
         setProcessingState({ status: 'idle', progress: 0, error: 'Template required.' });
         return;
     }
-    
-    setProcessingState({ status: 'generating', progress: 0 });
 
-    try {
-      if (genConfig.mode === 'template' || genConfig.mode === 'gif_match') {
-          // If GIF Match, use the template (which is now the stitched GIF)
-          const resultBase64 = await generateSpriteVariant(genConfig.templateImage!, genConfig.characterImage!, genConfig.prompt, genConfig.size, genConfig.stylePresetId);
-          const img = new Image();
-          img.onload = () => {
-             // If GIF match, use the extracted config, otherwise default
-             const configToUse = genConfig.mode === 'gif_match' && gifGridConfig 
-                ? { ...INITIAL_CONFIG, ...gifGridConfig } 
-                : INITIAL_CONFIG;
-             
-             createGroup(resultBase64, { width: img.width, height: img.height }, configToUse as SpriteConfig, genConfig.templateImage);
-          };
-          img.src = resultBase64;
-
-      } else if (genConfig.mode === 'multi_template') {
-          const files = genConfig.templateFiles;
-          for (let i = 0; i < files.length; i++) {
-              setProcessingState({ status: 'generating', progress: Math.round((i / files.length) * 100) });
-              const file = files[i];
-              const base64 = await new Promise<string>((resolve) => {
-                  const reader = new FileReader();
-                  reader.onload = (e) => resolve(e.target?.result as string);
-                  reader.readAsDataURL(file);
-              });
-              const resultBase64 = await generateSpriteVariant(base64, genConfig.characterImage!, genConfig.prompt, genConfig.size, genConfig.stylePresetId);
-              await new Promise<void>((resolve) => {
-                  const img = new Image();
-                  img.onload = () => {
-                      createGroup(resultBase64, { width: img.width, height: img.height }, INITIAL_CONFIG, base64);
-                      resolve();
-                  };
-                  img.src = resultBase64;
-              });
-          }
-      }
-      setProcessingState({ status: 'idle', progress: 0 });
-    } catch (error: any) {
-      console.error(error);
-      setProcessingState({ status: 'idle', progress: 0, error: 'Generation failed.' });
+    if (settings.mode === 'template' || settings.mode === 'gif_match') {
+        // If GIF Match, use the extracted config, otherwise default
+        const configToUse = settings.mode === 'gif_match' && gifGridConfig 
+            ? { ...DEFAULT_SPRITE_CONFIG, ...gifGridConfig, scaleFilter } 
+            : { ...DEFAULT_SPRITE_CONFIG, scaleFilter };
+
+        enqueue(settings.mode === 'gif_match' ? 'GIF match' : 'Template variant', async (signal, reportProgress) => {
+            // If GIF Match, use the template (which is now the stitched GIF)
+            const generate = () => generationProvider.generateSpriteVariant(settings.templateImage!, settings.characterImage!, settings.prompt, settings.size, settings.stylePresetId, profileReference, signal);
+            // Only a GIF match knows which grid to expect
+            if (settings.mode === 'gif_match' && gifGridConfig) {
+                const { imageUrl, validation } = await generateValidated(generate, configToUse as SpriteConfig, signal, reportProgress);
+                reportProgress(90);
+                await addGeneratedGroup(signal, imageUrl, configToUse as SpriteConfig, { originalSourceUrl: settings.templateImage, validation, profileId });
+                return;
+            }
+            reportProgress(10);
+            const resultBase64 = await generate();
+            reportProgress(90);
+            await addGeneratedGroup(signal, resultBase64, configToUse as SpriteConfig, { originalSourceUrl: settings.templateImage, profileId });
+        });
+    } else if (settings.mode === 'multi_template') {
+        settings.templateFiles.forEach(file => {
+            enqueue(file.name, async (signal, reportProgress) => {
+                const base64 = await new Promise<string>((resolve) => {
+                    const reader = new FileReader();
+                    reader.onload = (e) => resolve(e.target?.result as string);
+                    reader.readAsDataURL(file);
+                });
+                reportProgress(10);
+                const resultBase64 = await generationProvider.generateSpriteVariant(base64, settings.characterImage!, settings.prompt, settings.size, settings.stylePresetId, profileReference, signal);
+                reportProgress(90);
+                await addGeneratedGroup(signal, resultBase64, { ...DEFAULT_SPRITE_CONFIG, scaleFilter }, { originalSourceUrl: base64, title: file.name.replace(/\.[^.]+$/, ''), profileId });
+            });
+        });
     }
+    setProcessingState({ status: 'idle', progress: 0 });
   };
 
   const handleExportGridImage = () => {
@@ -655,17 +1130,10 @@ const App: React.FC = () => {
         ctx.strokeStyle = '#00e5ff'; 
         ctx.lineWidth = 2;
         ctx.beginPath();
-        const rowHeight = group.dimensions.height / group.config.rows;
-        const colWidth = group.dimensions.width / group.config.cols;
-        for (let i = 1; i < group.config.rows; i++) {
-            const y = i * rowHeight;
-            ctx.moveTo(0, y);
-            ctx.lineTo(group.dimensions.width, y);
-        }
-        for (let i = 1; i < group.config.cols; i++) {
-            const x = i * colWidth;
-            ctx.moveTo(x, 0);
-            ctx.lineTo(x, group.dimensions.height);
+        // Outline every cell so margins, spacing and uneven cells are visible
+        for (let i = 0; i < group.config.totalFrames; i++) {
+            const rect = getFrameRect(group.config, group.dimensions, i);
+            ctx.rect(rect.x, rect.y, rect.w, rect.h);
         }
         ctx.stroke();
 
@@ -689,14 +1157,95 @@ const App: React.FC = () => {
     img.src = group.imageUrl!;
   };
 
-  // Reusable GIF Generation Function
-  const generateGifAsset = async (group: NodeGroup): Promise<void> => {
-      if (!group.imageUrl) return;
+  // Saves both atlas files to the library and downloads them
+  const saveAtlasExport = (atlas: AtlasExport) => {
+      const imageUrl = URL.createObjectURL(atlas.image);
+      const metadataUrl = URL.createObjectURL(new Blob([atlas.metadata], { type: 'text/plain' }));
+      const timestamp = Date.now();
+
+      const newAssets: SavedAsset[] = [
+          { id: crypto.randomUUID(), type: 'sheet', url: imageUrl, name: atlas.imageFileName, timestamp, dimensions: atlas.dimensions },
+          { id: crypto.randomUUID(), type: 'atlas', url: metadataUrl, name: atlas.metadataFileName, timestamp, dimensions: atlas.dimensions }
+      ];
+      setSavedAssets(prev => [...newAssets, ...prev]);
+
+      newAssets.forEach(asset => {
+          const link = document.createElement('a');
+          link.download = asset.name;
+          link.href = asset.url;
+          link.click();
+      });
+  };
+
+  const loadPackedAtlasSource = async (group: NodeGroup, name = getGroupFileStem(group)): Promise<PackedAtlasSource> => {
+      const img = new Image();
+      img.src = group.imageUrl!;
+      await img.decode();
+      return { name, image: img, config: group.config, dimensions: group.dimensions };
+  };
+
+  // Engine Atlas Export: clean packed PNG + metadata file (no grid lines)
+  const handleExportAtlas = async () => {
+    if (!selectedGroupId) return;
+    const group = groups[selectedGroupId];
+    if (!group.imageUrl || group.dimensions.width === 0) return;
+
+    setProcessingState({ status: 'rendering', progress: 0 });
+    try {
+        const baseName = `atlas-${getGroupFileStem(group)}`;
+        const source = await loadPackedAtlasSource(group);
+        const atlas = atlasTrim
+            ? await exportPackedAtlas([source], baseName, atlasFormat)
+            : await exportAtlas(source.image, group.config, group.dimensions, baseName, atlasFormat);
+        saveAtlasExport(atlas);
+
+        setProcessingState({ status: 'completed', progress: 100 });
+        setTimeout(() => setProcessingState({ status: 'idle', progress: 0 }), 1500);
+    } catch (e) {
+        console.error("Atlas Export Failed", e);
+        setProcessingState({ status: 'idle', progress: 0, error: 'Atlas export failed' });
+    }
+  };
+
+  // BATCH: Trim and pack every group into one atlas (e.g. all actions of a character)
+  const handlePackAllGroups = async () => {
+      const allGroups = (Object.values(groups) as NodeGroup[])
+          .filter(g => g.imageUrl && g.dimensions.width > 0)
+          .sort((a, b) => a.createdAt - b.createdAt);
+      if (allGroups.length === 0) return;
+
+      setProcessingState({ status: 'rendering', progress: 0 });
+      try {
+          const names = getUniqueGroupFileStems(allGroups); // Frame names must not collide
+          const sources = await Promise.all(allGroups.map(g => loadPackedAtlasSource(g, names[g.id])));
+          const atlas = await exportPackedAtlas(sources, 'atlas-all', atlasFormat);
+          saveAtlasExport(atlas);
+
+          setProcessingState({ status: 'completed', progress: 100 });
+          setTimeout(() => setProcessingState({ status: 'idle', progress: 0 }), 1500);
+      } catch (e) {
+          console.error("Atlas Pack Failed", e);
+          setProcessingState({ status: 'idle', progress: 0, error: 'Atlas packing failed' });
+      }
+  };
+
+  const downloadBlob = (blob: Blob, fileName: string) => {
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // Reusable Animation Export Function (GIF / APNG / WebP); the result is added to the library
+  const generateAnimationAsset = async (group: NodeGroup, format: AnimationFormat, autoDownload = true): Promise<Blob | null> => {
+      if (!group.imageUrl) return null;
       try {
         const img = new Image();
         img.src = group.imageUrl;
         await img.decode();
-        const blob = await generateGif(img, group.config, group.dimensions, (pct) => {
+        const blob = await generateAnimation(img, group.config, group.dimensions, format, (pct) => {
              // If we are processing a batch, maybe don't update global progress for single items?
              // For single item, update global state
              if (processingState.status !== 'generating') { // only if not in batch mode
@@ -704,11 +1253,11 @@ const App: React.FC = () => {
              }
         });
         const url = URL.createObjectURL(blob);
-        const fileName = `sprite-${group.id.substring(0,4)}.gif`;
+        const fileName = `${getGroupFileStem(group)}.${getAnimationExtension(format)}`;
         
         const newAsset: SavedAsset = {
             id: crypto.randomUUID(),
-            type: 'gif',
+            type: format,
             url: url,
             name: fileName,
             timestamp: Date.now(),
@@ -716,25 +1265,27 @@ const App: React.FC = () => {
         };
         setSavedAssets(prev => [newAsset, ...prev]);
         
-        // Auto download
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = fileName;
-        a.click();
+        if (autoDownload) {
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = fileName;
+            a.click();
+        }
+        return blob;
       } catch (e) {
-          console.error("GIF Gen Failed", e);
+          console.error(`${format.toUpperCase()} Export Failed`, e);
           throw e;
       }
   };
 
-  // Wrapper for Single GIF Export (Sidebar/Context)
-  const handleExportGif = async (groupId?: string) => {
+  // Wrapper for Single Animation Export (Sidebar/Context)
+  const handleExportAnimation = async (groupId?: string) => {
     const targetId = groupId || selectedGroupId;
     if (!targetId || !groups[targetId]) return;
     
     setProcessingState({ status: 'rendering', progress: 0 });
     try {
-        await generateGifAsset(groups[targetId]);
+        await generateAnimationAsset(groups[targetId], exportFormat);
         setProcessingState({ status: 'completed', progress: 100 });
         setTimeout(() => setProcessingState({ status: 'idle', progress: 0 }), 1500);
     } catch(e) {
@@ -742,46 +1293,88 @@ const App: React.FC = () => {
     }
   };
 
-  // BATCH: Generate GIFs for all groups
-  const handleBatchGenerateGif = async () => {
-      const allGroups: NodeGroup[] = Object.values(groups);
+  // BATCH: Export animations for all groups as one ZIP (sheet, source, animation, metadata per folder)
+  const handleBatchExportAnimation = async () => {
+      const allGroups = (Object.values(groups) as NodeGroup[]).sort((a, b) => a.createdAt - b.createdAt);
       if (allGroups.length === 0) return;
       
       setProcessingState({ status: 'generating', progress: 0 });
+      const animations: Record<string, BundleFile[]> = {};
       let completed = 0;
       
       // Process sequentially to avoid memory spikes
       for (const group of allGroups) {
           try {
-              await generateGifAsset(group);
+              const blob = await generateAnimationAsset(group, exportFormat, false);
+              if (blob) animations[group.id] = [{ label: 'anim', extension: getAnimationExtension(exportFormat), blob }];
           } catch(e) { console.error(e); }
           completed++;
           setProcessingState({ status: 'generating', progress: (completed / allGroups.length) * 100 });
       }
-      setProcessingState({ status: 'idle', progress: 0 });
+
+      try {
+          downloadBlob(await createGroupBundle(allGroups, animations), `sprites-${exportFormat}.zip`);
+          setProcessingState({ status: 'idle', progress: 0 });
+      } catch (e) {
+          console.error("Bundle Failed", e);
+          setProcessingState({ status: 'idle', progress: 0, error: 'ZIP export failed' });
+      }
   };
 
-  // BATCH: Download source images
-  const handleBatchDownload = () => {
-      Object.values(groups).forEach((group: NodeGroup, index) => {
-         if (!group.imageUrl) return;
-         setTimeout(() => {
-             const a = document.createElement('a');
-             a.href = group.imageUrl!;
-             a.download = `source-${group.id.substring(0,6)}.png`;
-             a.click();
-         }, index * 200);
-      });
+  // BATCH: Download source images and metadata as one ZIP
+  const handleBatchDownload = async () => {
+      const allGroups = (Object.values(groups) as NodeGroup[])
+          .filter(g => g.imageUrl)
+          .sort((a, b) => a.createdAt - b.createdAt);
+      if (allGroups.length === 0) return;
+
+      try {
+          downloadBlob(await createGroupBundle(allGroups), 'sprites-sources.zip');
+      } catch (e) {
+          console.error("Bundle Failed", e);
+          setProcessingState({ status: 'idle', progress: 0, error: 'ZIP export failed' });
+      }
   };
 
   const updateGroupConfig = (groupId: string, newConfig: SpriteConfig) => {
+      // Repeated edits of the same fields (nudges, slider drags) collapse into one undo step
+      const currentConfig = groups[groupId]?.config;
+      const changedKeys = (Object.keys(newConfig) as (keyof SpriteConfig)[])
+          .filter(key => !currentConfig || newConfig[key] !== currentConfig[key]);
+      const isDiscrete = changedKeys.some(key => DISCRETE_CONFIG_KEYS.includes(key));
+      const mergeFields = changedKeys.sort().map(key => PER_FRAME_CONFIG_KEYS.includes(key)
+          ? `${key}[${getChangedFrames(currentConfig?.[key] as Record<number, unknown>, newConfig[key] as Record<number, unknown>).join(',')}]`
+          : key);
       setGroups(prev => ({
           ...prev,
           [groupId]: {
               ...prev[groupId],
               config: newConfig
           }
-      }));
+      }), { mergeKey: isDiscrete ? undefined : `config:${groupId}:${mergeFields.join(',')}` });
+  };
+
+  // Pixel edits replace the sheet; the replaced one is kept so the edit can be reverted
+  const handlePaintRevision = (groupId: string, imageUrl: string) => {
+      setGroups(prev => {
+          const group = prev[groupId];
+          if (!group?.imageUrl) return prev;
+          return {
+              ...prev,
+              [groupId]: { ...group, imageUrl, revisions: [...(group.revisions || []), group.imageUrl].slice(-MAX_REVISIONS) }
+          };
+      });
+  };
+
+  const handleRevertRevision = (groupId: string) => {
+      setGroups(prev => {
+          const group = prev[groupId];
+          if (!group?.revisions?.length) return prev;
+          return {
+              ...prev,
+              [groupId]: { ...group, imageUrl: group.revisions[group.revisions.length - 1], revisions: group.revisions.slice(0, -1) }
+          };
+      });
   };
 
   // Atomic update for Grid Dimensions to avoid Sync issues
@@ -793,7 +1386,9 @@ const App: React.FC = () => {
           ...currentConfig,
           rows: newRows,
           cols: newCols,
-          totalFrames: newTotalFrames
+          totalFrames: newTotalFrames,
+          layout: 'grid',
+          frameRects: undefined // Explicit cells belong to the old grid
       });
   };
 
@@ -847,6 +1442,7 @@ const App: React.FC = () => {
       e.stopPropagation();
       setIsDraggingNode(nodeId);
       nodeDragStart.current = { x: e.clientX, y: e.clientY };
+      nodeDragSession.current = Date.now();
       const node = nodes.find(n => n.id === nodeId);
       if (node) {
           initialNodePos.current = { x: node.position.x, y: node.position.y };
@@ -860,7 +1456,10 @@ const App: React.FC = () => {
       if (isDraggingNode) {
           const deltaX = (e.clientX - nodeDragStart.current.x) / viewport.scale;
           const deltaY = (e.clientY - nodeDragStart.current.y) / viewport.scale;
-          setNodes(prev => prev.map(n => n.id === isDraggingNode ? { ...n, position: { x: initialNodePos.current.x + deltaX, y: initialNodePos.current.y + deltaY } } : n));
+          setNodes(
+              prev => prev.map(n => n.id === isDraggingNode ? { ...n, position: { x: initialNodePos.current.x + deltaX, y: initialNodePos.current.y + deltaY } } : n),
+              { mergeKey: `node:${isDraggingNode}:${nodeDragSession.current}` }
+          );
       }
   };
   const handleGlobalMouseUp = () => { setIsPanning(false); setIsDraggingNode(null); };
@@ -922,10 +1521,15 @@ const App: React.FC = () => {
                       <span className="text-[10px] text-slate-400 font-mono tracking-wider">序列帧实验室</span>
                   </div>
                </div>
+               <div className="flex items-center flex-shrink-0">
+               <button onClick={() => setIsProjectsOpen(true)} className="p-2 rounded hover:bg-slate-700 text-slate-400 hover:text-white transition-colors flex-shrink-0" title="Projects">
+                  <FolderOpen size={18} />
+               </button>
                <button onClick={() => setIsAssetsOpen(true)} className="p-2 rounded hover:bg-slate-700 text-slate-400 hover:text-white transition-colors relative flex-shrink-0" title="Assets & History">
                   <Box size={18} />
                   {savedAssets.length > 0 && <span className="absolute top-1 right-1 w-2 h-2 bg-pink-500 rounded-full"></span>}
                </button>
+               </div>
            </div>
            
            {/* Referral Link */}
@@ -949,6 +1553,18 @@ const App: React.FC = () => {
               <div className="flex items-center space-x-2 text-xs font-bold text-slate-500 uppercase tracking-widest">
                 <Sparkles size={12} className="text-violet-500" /><span>Synthesis</span>
               </div>
+
+              <CharacterProfilePicker
+                  profiles={profiles}
+                  activeProfileId={genConfig.profileId}
+                  canCreate={!!genConfig.characterImage}
+                  styleOptions={STYLE_OPTIONS}
+                  onSelect={handleSelectProfile}
+                  onCreate={handleCreateProfile}
+                  onRename={handleRenameProfile}
+                  onResetReference={handleResetProfileReference}
+                  onDelete={handleDeleteProfile}
+              />
               
               <div className="flex bg-slate-800/50 p-1 rounded-lg border border-slate-700 gap-0.5 overflow-x-auto">
                 <button onClick={() => setGenConfig(prev => ({...prev, mode: 'template'}))} className={`flex-1 min-w-fit px-2 py-1.5 text-[9px] font-bold uppercase tracking-wider rounded transition-all flex items-center justify-center space-x-1 ${genConfig.mode === 'template' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}>
@@ -1132,7 +1748,7 @@ const App: React.FC = () => {
                    <div className="flex items-center space-x-2 text-[10px] text-slate-500 uppercase tracking-widest mb-1">
                       <Palette size={10} className="text-orange-400" /><span>Art Style</span>
                    </div>
-                   <select value={genConfig.stylePresetId} onChange={(e) => setGenConfig(prev => ({...prev, stylePresetId: e.target.value as StylePresetId}))} className="w-full bg-[#0f1115] border border-slate-700 rounded px-2 py-2 text-xs text-slate-200 focus:border-indigo-500 outline-none">
+                   <select value={genConfig.stylePresetId} disabled={!!genConfig.profileId} title={genConfig.profileId ? 'Locked by the character profile' : undefined} onChange={(e) => setGenConfig(prev => ({...prev, stylePresetId: e.target.value as StylePresetId}))} className="w-full bg-[#0f1115] border border-slate-700 rounded px-2 py-2 text-xs text-slate-200 focus:border-indigo-500 outline-none disabled:opacity-60">
                       {STYLE_OPTIONS.map(opt => <option key={opt.id} value={opt.id}>{opt.label}</option>)}
                    </select>
                  </div>
@@ -1145,7 +1761,7 @@ const App: React.FC = () => {
                     ))}
                  </div>
                  <button onClick={handleGenerateSprite} disabled={processingState.status === 'generating'} className="w-full py-2.5 rounded bg-gradient-to-r from-violet-600 to-pink-600 text-white font-bold text-xs shadow-lg hover:shadow-pink-500/20 transition-all flex items-center justify-center space-x-2 disabled:opacity-50">
-                     {processingState.status === 'generating' ? <RefreshCw size={14} className="animate-spin" /> : <Sparkles size={14} />}
+                     {processingState.status === 'generating' || activeJobCount > 0 ? <RefreshCw size={14} className="animate-spin" /> : <Sparkles size={14} />}
                      <span>
                         {genConfig.mode === 'multi_template' ? 'BATCH TEMPLATES' : 
                          genConfig.mode === 'gif_match' ? 'SYNC & GENERATE' : 
@@ -1200,6 +1816,39 @@ const App: React.FC = () => {
               <button onClick={handleAutoDetect} disabled={!activeGroup?.imageUrl} className="w-full py-1.5 text-xs bg-slate-800 border border-slate-700 rounded text-slate-400 flex items-center justify-center space-x-2 disabled:opacity-50">
                    {processingState.status === 'analyzing' ? <RefreshCw size={12} className="animate-spin" /> : <Monitor size={12} />}<span>Detect Grid</span>
               </button>
+              {activeGroup?.detection && (
+                  <div className="flex items-center justify-between text-[10px] text-slate-500">
+                      <span>Detected by <span className={activeGroup.detection.method === 'local' ? 'text-emerald-400' : 'text-indigo-400'}>{activeGroup.detection.method === 'local' ? 'Local CV' : getGenerationProviderLabel(activeGroup.detection.method)}</span></span>
+                      <span className={activeGroup.detection.confidence >= LOW_CONFIDENCE_THRESHOLD ? 'text-emerald-400' : 'text-amber-400'}>local {Math.round(activeGroup.detection.confidence * 100)}%</span>
+                  </div>
+              )}
+              {activeGroup?.validation && !activeGroup.validation.passed && (
+                  <div className="p-2 bg-amber-900/20 border border-amber-800/50 rounded text-[10px] text-amber-300 space-y-1">
+                      <div className="flex items-center space-x-1 font-bold"><TriangleAlert size={11} /><span>Failed validation after {activeGroup.validation.attempts} attempt{activeGroup.validation.attempts === 1 ? '' : 's'}</span></div>
+                      {activeGroup.validation.issues.map(issue => <div key={issue} className="text-amber-400/80">· {issue}</div>)}
+                  </div>
+              )}
+              <button onClick={handleExtractSprites} disabled={!activeGroup?.imageUrl} className={`w-full py-1.5 text-xs border rounded flex items-center justify-center space-x-2 disabled:opacity-50 ${activeGroup?.config.layout === 'free' ? 'bg-indigo-900/40 border-indigo-700 text-indigo-300' : 'bg-slate-800 border-slate-700 text-slate-400'}`} title="Find loose sprites without a grid">
+                   <Scan size={12} /><span>{activeGroup?.config.layout === 'free' ? `Free Layout · ${activeGroup.config.totalFrames} Sprites` : 'Extract Sprites (Free Layout)'}</span>
+              </button>
+              <button onClick={() => selectedGroupId && setFrameEditorGroupId(selectedGroupId)} disabled={!activeGroup?.imageUrl} className="w-full py-1.5 text-xs bg-slate-800 border border-slate-700 rounded text-slate-400 flex items-center justify-center space-x-2 disabled:opacity-50">
+                   <Crop size={12} /><span>Edit Frames</span>
+              </button>
+              <button onClick={handlePixelSnap} disabled={!activeGroup?.imageUrl || processingState.status === 'analyzing'} className="w-full py-1.5 text-xs bg-slate-800 border border-slate-700 rounded text-slate-400 flex items-center justify-center space-x-2 disabled:opacity-50" title="Detect the logical pixel size and resample to a true low-res sheet (new group)">
+                   <Grid3X3 size={12} /><span>Pixel Snap (De-AI)</span>
+              </button>
+
+              <PaletteLockPanel
+                  palette={lockedPalette}
+                  profilePalette={activeGroup?.profileId ? profiles[activeGroup.profileId]?.palette || null : null}
+                  disabled={!activeGroup?.imageUrl}
+                  isBusy={processingState.status === 'analyzing' || processingState.status === 'rendering'}
+                  onExtract={handleExtractPalette}
+                  onImport={handleImportPalette}
+                  onUseProfilePalette={() => activeGroup?.profileId && setLockedPalette(profiles[activeGroup.profileId]?.palette || [])}
+                  onClear={() => setLockedPalette([])}
+                  onRemap={handleRemapToPalette}
+              />
 
                <div className="h-px bg-slate-800 w-full my-2" />
 
@@ -1208,20 +1857,62 @@ const App: React.FC = () => {
                      <input type="checkbox" checked={activeGroup?.config.autoTransparent || false} onChange={(e) => updateConfigFromSidebar('autoTransparent', e.target.checked)} className="rounded bg-slate-900 border-slate-700 text-cyan-500 focus:ring-0" />
                      <span className="text-xs text-slate-400">Transparent BG</span>
                   </label>
+                  {activeGroup?.config.autoTransparent && (
+                      <div className="space-y-2 pl-5">
+                          <div className="flex items-center justify-between">
+                              <span className="text-xs text-slate-500">Key Color</span>
+                              <div className="flex items-center space-x-1">
+                                  <button onClick={() => updateConfigFromSidebar('keyColor', null)} className={`px-2 py-0.5 text-[10px] rounded border ${!activeGroup.config.keyColor ? 'bg-cyan-600 border-cyan-500 text-white' : 'bg-transparent border-slate-700 text-slate-500 hover:text-slate-300'}`} title="Detect from frame borders">Auto</button>
+                                  <input type="color" value={activeGroup.config.keyColor || '#ffffff'} onChange={(e) => updateConfigFromSidebar('keyColor', e.target.value)} className="w-6 h-5 bg-transparent border border-slate-700 rounded cursor-pointer" title="Pick background color" />
+                              </div>
+                          </div>
+                          <div>
+                              <div className="flex justify-between text-[10px] text-slate-500 mb-1"><span>Tolerance</span><span className="text-cyan-400">{activeGroup.config.keyTolerance ?? DEFAULT_KEY_TOLERANCE}</span></div>
+                              <input type="range" min="0" max="128" value={activeGroup.config.keyTolerance ?? DEFAULT_KEY_TOLERANCE} onChange={(e) => updateConfigFromSidebar('keyTolerance', parseInt(e.target.value))} className="w-full accent-cyan-500 h-1 bg-slate-800 rounded-lg appearance-none" />
+                          </div>
+                      </div>
+                  )}
                   <div className="flex items-center justify-between">
                       <span className="text-xs text-slate-500">Export Scale</span>
                       <div className="flex space-x-1">
-                          {[1, 2, 4].map((scaleVal) => (
+                          {EXPORT_SCALES.map((scaleVal) => (
                               <button key={scaleVal} onClick={() => updateConfigFromSidebar('scale', scaleVal)} className={`px-2 py-0.5 text-[10px] rounded border ${activeGroup?.config.scale === scaleVal ? 'bg-cyan-600 border-cyan-500 text-white' : 'bg-transparent border-slate-700 text-slate-500 hover:text-slate-300'}`}>{scaleVal}x</button>
                           ))}
                       </div>
                   </div>
+                  <div className="flex items-center justify-between">
+                      <span className="text-xs text-slate-500">Scaling</span>
+                      <div className="flex space-x-1">
+                          <button onClick={() => updateConfigFromSidebar('scaleFilter', 'nearest')} className={`px-2 py-0.5 text-[10px] rounded border ${activeGroup?.config.scaleFilter === 'nearest' ? 'bg-cyan-600 border-cyan-500 text-white' : 'bg-transparent border-slate-700 text-slate-500 hover:text-slate-300'}`} title="Nearest-neighbor (pixel art)">Pixel</button>
+                          <button onClick={() => updateConfigFromSidebar('scaleFilter', 'smooth')} className={`px-2 py-0.5 text-[10px] rounded border ${activeGroup?.config.scaleFilter === 'smooth' ? 'bg-cyan-600 border-cyan-500 text-white' : 'bg-transparent border-slate-700 text-slate-500 hover:text-slate-300'}`} title="Filtered (painted styles)">Smooth</button>
+                      </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                      <select value={atlasFormat} onChange={(e) => setAtlasFormat(e.target.value as AtlasFormat)} className="flex-1 min-w-0 bg-[#0f1115] border border-slate-700 rounded px-2 py-1.5 text-[10px] text-slate-200 focus:border-indigo-500 outline-none" title="Atlas Metadata Format">
+                          {ATLAS_FORMATS.map(format => <option key={format.id} value={format.id}>{format.label}</option>)}
+                      </select>
+                      <button onClick={handleExportAtlas} disabled={!activeGroup?.imageUrl || processingState.status === 'rendering'} className="px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 text-[10px] font-bold flex items-center space-x-1 disabled:opacity-50">
+                          <FileImage size={12} /><span>ATLAS</span>
+                      </button>
+                  </div>
+                  <label className="flex items-center space-x-2 cursor-pointer select-none">
+                     <input type="checkbox" checked={atlasTrim} onChange={(e) => setAtlasTrim(e.target.checked)} className="rounded bg-slate-900 border-slate-700 text-cyan-500 focus:ring-0" />
+                     <span className="text-xs text-slate-400">Trim &amp; tight-pack atlas (POT)</span>
+                  </label>
+                  <div className="flex items-center justify-between">
+                      <span className="text-xs text-slate-500">Format</span>
+                      <div className="flex space-x-1">
+                          {ANIMATION_FORMATS.map((format) => (
+                              <button key={format.id} onClick={() => setExportFormat(format.id)} className={`px-2 py-0.5 text-[10px] rounded border ${exportFormat === format.id ? 'bg-cyan-600 border-cyan-500 text-white' : 'bg-transparent border-slate-700 text-slate-500 hover:text-slate-300'}`}>{format.label}</button>
+                          ))}
+                      </div>
+                  </div>
                   <div className="grid grid-cols-2 gap-2">
                       <button onClick={handleExportGridImage} disabled={!activeGroup?.imageUrl} className="w-full py-3 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-400 text-xs shadow-md transition-all flex items-center justify-center space-x-2 disabled:opacity-50">
                          <Grid3X3 size={14} /><span>GRID IMG</span>
                       </button>
-                      <button onClick={() => handleExportGif()} disabled={!activeGroup?.imageUrl || processingState.status === 'rendering'} className="w-full py-3 rounded bg-cyan-600 hover:bg-cyan-500 text-white font-bold text-xs shadow-lg shadow-cyan-900/20 transition-all flex items-center justify-center space-x-2 disabled:opacity-50">
-                         {processingState.status === 'rendering' ? <RefreshCw size={14} className="animate-spin" /> : <Download size={14} />}<span>GIF</span>
+                      <button onClick={() => handleExportAnimation()} disabled={!activeGroup?.imageUrl || processingState.status === 'rendering'} className="w-full py-3 rounded bg-cyan-600 hover:bg-cyan-500 text-white font-bold text-xs shadow-lg shadow-cyan-900/20 transition-all flex items-center justify-center space-x-2 disabled:opacity-50">
+                         {processingState.status === 'rendering' ? <RefreshCw size={14} className="animate-spin" /> : <Download size={14} />}<span>{exportFormat.toUpperCase()}</span>
                       </button>
                   </div>
                </div>
@@ -1248,13 +1939,27 @@ const App: React.FC = () => {
                       <LayoutGrid size={12} /><span>Data Grid</span>
                    </button>
                 </div>
+                <div className="flex bg-black/30 rounded p-0.5 border border-white/5">
+                   <button onClick={undo} disabled={!canUndo} className="p-1.5 text-slate-400 hover:text-white rounded hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent" title="Undo (Ctrl+Z)"><Undo2 size={14} /></button>
+                   <button onClick={redo} disabled={!canRedo} className="p-1.5 text-slate-400 hover:text-white rounded hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent" title="Redo (Ctrl+Shift+Z)"><Redo2 size={14} /></button>
+                </div>
+                <button onClick={() => setIsJobsOpen(prev => !prev)} className={`relative p-1.5 rounded border border-white/5 ${isJobsOpen ? 'bg-slate-700 text-white' : 'bg-black/30 text-slate-400 hover:text-white'}`} title="Generation jobs">
+                   <ListChecks size={14} />
+                   {activeJobCount > 0 && <span className="absolute -top-1 -right-1 min-w-[14px] h-[14px] px-0.5 bg-cyan-500 text-[9px] leading-[14px] text-center text-white rounded-full">{activeJobCount}</span>}
+                   {activeJobCount === 0 && jobs.some(j => j.status === 'failed') && <span className="absolute -top-0.5 -right-0.5 w-2 h-2 bg-red-500 rounded-full"></span>}
+                </button>
+                {currentProject && (
+                   <button onClick={() => setIsProjectsOpen(true)} className="text-xs text-slate-500 hover:text-slate-300 truncate max-w-[200px]" title="Projects (autosaved)">
+                      {currentProject.name}
+                   </button>
+                )}
              </div>
              <div className="flex items-center space-x-2 bg-black/30 rounded p-1 border border-white/5">
                  <button onClick={() => setViewport(p => ({...p, scale: Math.max(0.1, p.scale - 0.1)}))} className="p-1.5 text-slate-400 hover:text-white rounded hover:bg-white/10"><ZoomOut size={14} /></button>
                  <span className="text-[10px] w-8 text-center text-slate-500 font-mono">{Math.round(viewport.scale * 100)}%</span>
                  <button onClick={() => setViewport(p => ({...p, scale: Math.min(3, p.scale + 0.1)}))} className="p-1.5 text-slate-400 hover:text-white rounded hover:bg-white/10"><ZoomIn size={14} /></button>
                  <div className="w-px h-4 bg-white/10 mx-1"></div>
-                 <button onClick={() => setViewport({scale: 0.6, x: 50, y: 50})} className="p-1.5 text-slate-400 hover:text-white rounded hover:bg-white/10"><Maximize size={14} /></button>
+                 <button onClick={() => setViewport(DEFAULT_VIEWPORT)} className="p-1.5 text-slate-400 hover:text-white rounded hover:bg-white/10"><Maximize size={14} /></button>
              </div>
          </div>
 
@@ -1341,10 +2046,10 @@ const App: React.FC = () => {
                                         </div>
                                         {/* Canvas View: In-Node Generator Button */}
                                         <button 
-                                            onClick={(e) => { e.stopPropagation(); handleExportGif(group.id); }}
+                                            onClick={(e) => { e.stopPropagation(); handleExportAnimation(group.id); }}
                                             className="mt-2 w-full py-2 bg-cyan-600 hover:bg-cyan-500 text-white text-[10px] font-bold uppercase tracking-wider rounded flex items-center justify-center space-x-1 transition-colors"
                                         >
-                                            <Wand2 size={12} /><span>Export GIF</span>
+                                            <Wand2 size={12} /><span>Export {exportFormat.toUpperCase()}</span>
                                         </button>
                                     </div>
                                 )}
@@ -1377,9 +2082,12 @@ const App: React.FC = () => {
                 onDeleteGroup={deleteGroup}
                 onSelectGroup={setSelectedGroupId}
                 selectedGroupId={selectedGroupId}
-                onGenerateGif={handleExportGif}
-                onBatchGenerateGif={handleBatchGenerateGif}
+                exportFormat={exportFormat}
+                onExportFormatChange={setExportFormat}
+                onExportAnimation={handleExportAnimation}
+                onBatchExportAnimation={handleBatchExportAnimation}
                 onBatchDownload={handleBatchDownload}
+                onPackAtlas={handlePackAllGroups}
              />
          ) : (
              <GroupGridView 
@@ -1387,11 +2095,22 @@ const App: React.FC = () => {
                 onSelectGroup={setSelectedGroupId}
                 onDeleteGroup={deleteGroup}
                 selectedGroupId={selectedGroupId}
-                onGenerateGif={handleExportGif}
-                onBatchGenerateGif={handleBatchGenerateGif}
+                exportFormat={exportFormat}
+                onExportAnimation={handleExportAnimation}
+                onBatchExportAnimation={handleBatchExportAnimation}
                 onBatchDownload={handleBatchDownload}
+                onPackAtlas={handlePackAllGroups}
              />
          )}
+         {isJobsOpen && (
+            <JobsPanel
+                jobs={jobs}
+                onCancel={jobQueue.cancel}
+                onRetry={jobQueue.retry}
+                onClearFinished={jobQueue.clearFinished}
+                onClose={() => setIsJobsOpen(false)}
+            />
+         )}
       </main>
 
       {isAssetsOpen && (
@@ -1409,11 +2128,15 @@ const App: React.FC = () => {
                             {savedAssets.map((asset) => (
                                 <div key={asset.id} className="bg-slate-800 p-2 rounded border border-slate-700 hover:border-indigo-500 transition-colors group relative">
                                     <div className="aspect-square bg-slate-900 rounded overflow-hidden flex items-center justify-center mb-2">
-                                        <img src={asset.url} className="max-w-full max-h-full object-contain" alt="asset" />
+                                        {asset.type === 'atlas' ? (
+                                            <FileText size={32} className="text-amber-400/70" />
+                                        ) : (
+                                            <img src={asset.url} className="max-w-full max-h-full object-contain" alt="asset" />
+                                        )}
                                     </div>
                                     <div className="flex items-center justify-between">
                                         <div className="text-[10px] text-slate-500 truncate flex-1">{asset.name}</div>
-                                        <span className={`text-[9px] px-1 rounded uppercase ${asset.type === 'gif' ? 'bg-pink-900 text-pink-300' : 'bg-cyan-900 text-cyan-300'}`}>{asset.type}</span>
+                                        <span className={`text-[9px] px-1 rounded uppercase ${ASSET_BADGE_STYLES[asset.type]}`}>{asset.type}</span>
                                     </div>
                                     <a href={asset.url} download={asset.name} className="absolute top-2 right-2 p-1.5 bg-black/50 text-white rounded opacity-0 group-hover:opacity-100 transition-opacity hover:bg-indigo-600"><Download size={12}/></a>
                                 </div>
@@ -1424,6 +2147,37 @@ const App: React.FC = () => {
             </div>
         </div>
       )}
+
+      {isProjectsOpen && (
+        <ProjectsPanel
+            projects={projects}
+            currentProjectId={currentProject?.id || null}
+            onClose={() => setIsProjectsOpen(false)}
+            onOpen={handleOpenProject}
+            onCreate={handleCreateProject}
+            onRename={handleRenameProject}
+            onDuplicate={handleDuplicateProject}
+            onDelete={handleDeleteProject}
+            onExport={handleExportProjectFile}
+            onImport={handleImportProjectFile}
+        />
+      )}
+
+      {/* Frame Editor Modal */}
+      {frameEditorGroupId && groups[frameEditorGroupId] && (
+        <FrameEditorModal
+            isOpen={true}
+            onClose={() => setFrameEditorGroupId(null)}
+            imageUrl={groups[frameEditorGroupId].imageUrl}
+            config={groups[frameEditorGroupId].config}
+            dimensions={groups[frameEditorGroupId].dimensions}
+            onUpdateConfig={(newConfig) => updateGroupConfig(frameEditorGroupId, newConfig)}
+            originalSourceUrl={groups[frameEditorGroupId].originalSourceUrl}
+            onUpdateImage={(imageUrl) => handlePaintRevision(frameEditorGroupId, imageUrl)}
+            revisionCount={groups[frameEditorGroupId].revisions?.length || 0}
+            onRevertImage={() => handleRevertRevision(frameEditorGroupId)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { CharacterProfile, StylePresetId } from '../types';
+import { UserRound, Plus, Trash2, Pencil, Check, RotateCcw, Lock } from 'lucide-react';
+
+interface CharacterProfilePickerProps {
+  profiles: Record<string, CharacterProfile>;
+  activeProfileId: string | null;
+  canCreate: boolean; // A character image is loaded
+  styleOptions: { id: StylePresetId; label: string }[];
+  onSelect: (profileId: string | null) => void;
+  onCreate: () => void;
+  onRename: (profileId: string, name: string) => void;
+  onResetReference: (profileId: string) => void;
+  onDelete: (profileId: string) => void;
+}
+
+/**
+ * Picks the character profile used by every generation mode, and shows what it locks.
+ */
+export const CharacterProfilePicker: React.FC<CharacterProfilePickerProps> = ({
+  profiles,
+  activeProfileId,
+  canCreate,
+  styleOptions,
+  onSelect,
+  onCreate,
+  onRename,
+  onResetReference,
+  onDelete
+}) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState('');
+  const active = activeProfileId ? profiles[activeProfileId] : null;
+  const sorted = (Object.values(profiles) as CharacterProfile[]).sort((a, b) => a.createdAt - b.createdAt);
+
+  const commitRename = () => {
+    if (active && draftName.trim()) onRename(active.id, draftName.trim());
+    setIsRenaming(false);
+  };
+
+  return (
+    <div className="space-y-2">
+        <div className="flex items-center space-x-1">
+            <UserRound size={12} className="text-pink-400 shrink-0" />
+            {isRenaming && active ? (
+                <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setIsRenaming(false);
+                    }}
+                    onBlur={commitRename}
+                    className="flex-1 min-w-0 bg-[#0f1115] border border-indigo-500 rounded px-2 py-1 text-xs text-slate-200 outline-none"
+                />
+            ) : (
+                <select
+                    value={activeProfileId || ''}
+                    onChange={(e) => onSelect(e.target.value || null)}
+                    className="flex-1 min-w-0 bg-[#0f1115] border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:border-indigo-500 outline-none"
+                >
+                    <option value="">No character profile</option>
+                    {sorted.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                </select>
+            )}
+            {active && (
+                isRenaming ? (
+                    <button onClick={commitRename} className="p-1 text-emerald-400 hover:text-emerald-300" title="Save name"><Check size={12} /></button>
+                ) : (
+                    <button onClick={() => { setDraftName(active.name); setIsRenaming(true); }} className="p-1 text-slate-500 hover:text-slate-300" title="Rename profile"><Pencil size={12} /></button>
+                )
+            )}
+            <button onClick={onCreate} disabled={!canCreate} className="p-1 text-slate-500 hover:text-pink-400 disabled:opacity-30" title="New profile from the current character and style"><Plus size={12} /></button>
+            {active && (
+                <button onClick={() => confirm(`Delete profile "${active.name}"?`) && onDelete(active.id)} className="p-1 text-slate-500 hover:text-red-400" title="Delete profile"><Trash2 size={12} /></button>
+            )}
+        </div>
+
+        {active && (
+            <div className="flex items-start space-x-2 p-2 bg-pink-500/5 border border-pink-900/40 rounded">
+                <img src={active.characterImage} className="w-10 h-10 object-contain bg-slate-900 rounded shrink-0" />
+                <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center space-x-1 text-[10px] text-slate-400">
+                        <Lock size={9} className="text-pink-400" /><span>{styleOptions.find(opt => opt.id === active.stylePresetId)?.label || active.stylePresetId}</span>
+                    </div>
+                    {active.palette.length > 0 ? (
+                        <div className="flex flex-wrap gap-0.5">
+                            {active.palette.map(color => (
+                                <span key={color} className="w-3 h-3 rounded-sm border border-black/40" style={{ backgroundColor: color }} title={color} />
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="text-[9px] text-slate-600">Palette and reference come from the first accepted sheet.</div>
+                    )}
+                </div>
+                {active.referenceSheet && (
+                    <div className="relative shrink-0">
+                        <img src={active.referenceSheet} className="w-10 h-10 object-contain bg-white rounded" title="Reference sheet" />
+                        <button onClick={() => onResetReference(active.id)} className="absolute -top-1 -right-1 p-0.5 bg-slate-800 border border-slate-600 rounded-full text-slate-400 hover:text-white" title="Use the next accepted sheet as reference">
+                            <RotateCcw size={8} />
+                        </button>
+                    </div>
+                )}
+            </div>
+        )}
+    </div>
+  );
+};
@@ -1,6 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { X, Trash2, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, RotateCcw } from 'lucide-react';
+import { X, Trash2, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, RotateCcw, Clock, Repeat, ArrowLeftRight, Crosshair, Check, Undo2, LayoutGrid, Layers, Paintbrush, History } from 'lucide-react';
 import { SpriteConfig, ImageDimensions } from '../types';
+import { getPlaybackFrames } from '../utils/frameRenderer';
+import { getFrameRect, getFrameSize } from '../utils/slicing';
+import { computeAlignment, AlignmentMode, ALIGNMENT_MODES } from '../utils/frameAlignment';
+import { PreviewPlayer } from './PreviewPlayer';
+import { OnionSkinView } from './OnionSkinView';
+import { PixelEditor } from './PixelEditor';
+
+// Drag payload: a timeline slot being moved, or a grid frame being inserted
+type TimelineDragData = { from: 'timeline'; position: number } | { from: 'grid'; index: number };
+const DRAG_MIME = 'application/x-sprite-frame';
+
+const TIMELINE_THUMB_SIZE = 48;
 
 interface FrameEditorModalProps {
   isOpen: boolean;
@@ -9,20 +21,77 @@ interface FrameEditorModalProps {
   config: SpriteConfig;
   dimensions: ImageDimensions;
   onUpdateConfig: (newConfig: SpriteConfig) => void;
+  originalSourceUrl?: string | null; // Keeps the preview comparison available
+  onUpdateImage: (imageUrl: string) => void; // Pixel edits, stored as a new revision
+  revisionCount: number;
+  onRevertImage: () => void; // Back to the previous revision
 }
 
+type Offsets = SpriteConfig['frameOffsets'];
+
 export const FrameEditorModal: React.FC<FrameEditorModalProps> = ({
   isOpen,
   onClose,
   imageUrl,
   config,
   dimensions,
-  onUpdateConfig
+  onUpdateConfig,
+  originalSourceUrl,
+  onUpdateImage,
+  revisionCount,
+  onRevertImage
 }) => {
+  const [dropPosition, setDropPosition] = useState<number | null>(null);
+  const [view, setView] = useState<'grid' | 'onion'>('grid');
+  const [paintFrame, setPaintFrame] = useState<number | null>(null);
+  // Auto-align: computed offsets are previewed first, and the replaced ones kept for one-step revert
+  const [alignMode, setAlignMode] = useState<AlignmentMode>('feet');
+  const [referenceFrame, setReferenceFrame] = useState(0);
+  const [pendingOffsets, setPendingOffsets] = useState<Offsets | null>(null);
+  const [revertOffsets, setRevertOffsets] = useState<Offsets | null>(null);
+  const [alignError, setAlignError] = useState<string | null>(null);
+
   if (!isOpen || !imageUrl) return null;
 
-  const frameWidth = dimensions.width / config.cols;
-  const frameHeight = dimensions.height / config.rows;
+  const { width: frameWidth, height: frameHeight } = getFrameSize(config, dimensions);
+
+  // What the grid and preview show: pending alignment wins over the stored offsets
+  const displayConfig: SpriteConfig = pendingOffsets ? { ...config, frameOffsets: pendingOffsets } : config;
+
+  const handleAutoAlign = async () => {
+    setAlignError(null);
+    try {
+      const img = new Image();
+      img.src = imageUrl;
+      await img.decode();
+      setPendingOffsets(computeAlignment(img, config, dimensions, alignMode, referenceFrame));
+    } catch (e) {
+      console.error("Auto-align failed", e);
+      setAlignError(e instanceof Error ? e.message : 'Auto-align failed');
+    }
+  };
+
+  const applyAlignment = () => {
+    if (!pendingOffsets) return;
+    setRevertOffsets(config.frameOffsets || {});
+    onUpdateConfig({ ...config, frameOffsets: pendingOffsets });
+    setPendingOffsets(null);
+  };
+
+  const revertAlignment = () => {
+    if (!revertOffsets) return;
+    onUpdateConfig({ ...config, frameOffsets: revertOffsets });
+    setRevertOffsets(null);
+  };
+
+  // Nudges edit the pending alignment while it is being previewed
+  const commitOffsets = (newOffsets: Offsets) => {
+    if (pendingOffsets) {
+      setPendingOffsets(newOffsets);
+    } else {
+      onUpdateConfig({ ...config, frameOffsets: newOffsets });
+    }
+  };
 
   const toggleFrameExclusion = (index: number) => {
     const currentExcluded = config.excludedFrames || [];
@@ -36,7 +105,7 @@ export const FrameEditorModal: React.FC<FrameEditorModalProps> = ({
   };
 
   const updateFrameOffset = (index: number, dx: number, dy: number) => {
-    const currentOffsets = config.frameOffsets || {};
+    const currentOffsets = displayConfig.frameOffsets || {};
     const currentOffset = currentOffsets[index] || { x: 0, y: 0 };
     
     const newOffsets = {
@@ -46,13 +115,83 @@ export const FrameEditorModal: React.FC<FrameEditorModalProps> = ({
         y: currentOffset.y + dy
       }
     };
-    onUpdateConfig({ ...config, frameOffsets: newOffsets });
+    commitOffsets(newOffsets);
+  };
+
+  // Onion-skin edits go through the same path as the nudge buttons
+  const updateFromOnionSkin = (key: keyof SpriteConfig, value: any) => {
+    if (key === 'frameOffsets') {
+      commitOffsets(value);
+    } else {
+      onUpdateConfig({ ...config, [key]: value });
+    }
   };
 
   const resetFrameOffset = (index: number) => {
-     const currentOffsets = { ...config.frameOffsets };
+     const currentOffsets = { ...displayConfig.frameOffsets };
      delete currentOffsets[index];
-     onUpdateConfig({ ...config, frameOffsets: currentOffsets });
+     commitOffsets(currentOffsets);
+  };
+
+  // Hold in milliseconds; an empty value falls back to 1000 / fps
+  const updateFrameDuration = (index: number, duration: number | null) => {
+    const newDurations = { ...config.frameDurations };
+    if (duration === null || isNaN(duration) || duration <= 0) {
+      delete newDurations[index];
+    } else {
+      newDurations[index] = Math.round(duration);
+    }
+    onUpdateConfig({ ...config, frameDurations: newDurations });
+  };
+
+  const baseDuration = Math.round(1000 / config.fps);
+
+  // --- Timeline sequence ---
+  const timeline = getPlaybackFrames(config);
+
+  const updateSequence = (sequence: number[] | undefined) => {
+    onUpdateConfig({ ...config, sequence });
+  };
+
+  const pingPongSequence = () => {
+    if (timeline.length < 3) return;
+    // 0,1,2,3 -> 0,1,2,3,2,1 (endpoints are not repeated when looping)
+    updateSequence([...timeline, ...timeline.slice(1, -1).reverse()]);
+  };
+
+  const reverseSequence = () => updateSequence([...timeline].reverse());
+
+  const removeFromSequence = (position: number) => {
+    updateSequence(timeline.filter((_, i) => i !== position));
+  };
+
+  const startDrag = (e: React.DragEvent, data: TimelineDragData) => {
+    e.dataTransfer.setData(DRAG_MIME, JSON.stringify(data));
+    e.dataTransfer.effectAllowed = data.from === 'timeline' ? 'move' : 'copy';
+  };
+
+  const handleTimelineDrop = (e: React.DragEvent, position: number) => {
+    e.preventDefault();
+    setDropPosition(null);
+    const raw = e.dataTransfer.getData(DRAG_MIME);
+    if (!raw) return;
+    const data: TimelineDragData = JSON.parse(raw);
+
+    const next = [...timeline];
+    if (data.from === 'timeline') {
+      const [moved] = next.splice(data.position, 1);
+      next.splice(data.position < position ? position - 1 : position, 0, moved);
+    } else {
+      // Dropping a grid frame inserts (duplicates) it
+      next.splice(position, 0, data.index);
+    }
+    updateSequence(next);
+  };
+
+  const handleTimelineDragOver = (e: React.DragEvent, position: number) => {
+    if (!e.dataTransfer.types.includes(DRAG_MIME)) return;
+    e.preventDefault();
+    if (dropPosition !== position) setDropPosition(position);
   };
 
   // Generate an array of indices based on totalFrames
@@ -66,15 +205,164 @@ export const FrameEditorModal: React.FC<FrameEditorModalProps> = ({
         <div className="flex items-center justify-between p-4 border-b border-slate-800 bg-[#1a1d26]">
           <div>
             <h2 className="text-lg font-bold text-slate-100">Frame Editor</h2>
-            <p className="text-xs text-slate-500">Fine-tune offsets or delete keyframes</p>
+            <p className="text-xs text-slate-500">Fine-tune offsets, hold timing, repaint or delete keyframes</p>
           </div>
+          <div className="flex-1" />
+          {revisionCount > 0 && (
+            <button onClick={onRevertImage} className="flex items-center space-x-1 mr-3 px-2 py-1 rounded bg-slate-700 hover:bg-red-600 text-[10px] text-white" title="Restore the sheet from before the last pixel edit">
+              <History size={12} /><span>Undo Paint ({revisionCount})</span>
+            </button>
+          )}
           <button onClick={onClose} className="p-2 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white transition-colors">
             <X size={24} />
           </button>
         </div>
 
-        {/* Grid Content */}
-        <div className="flex-1 overflow-y-auto p-6 bg-[#0f1115]">
+        {/* Auto-Align */}
+        <div className="flex items-start border-b border-slate-800 bg-[#1a1d26] px-4 py-3 space-x-4">
+          <div className="flex-1 space-y-2">
+            <div className="text-[10px] font-bold uppercase tracking-wider text-slate-500">Auto-Align</div>
+            <div className="flex items-center flex-wrap gap-2">
+              <div className="flex bg-black/50 rounded border border-slate-800 p-0.5">
+                {ALIGNMENT_MODES.map(mode => (
+                  <button 
+                    key={mode.id}
+                    onClick={() => setAlignMode(mode.id)}
+                    className={`px-2 py-1 rounded text-[10px] ${alignMode === mode.id ? 'bg-indigo-500/50 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                    title={mode.description}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center space-x-1 text-[10px] text-slate-500">
+                <span>Reference</span>
+                <select 
+                  value={referenceFrame} 
+                  onChange={(e) => setReferenceFrame(parseInt(e.target.value))}
+                  className="bg-black/50 border border-slate-700 rounded px-1 py-0.5 text-slate-300 outline-none"
+                >
+                  {Array.from({ length: config.totalFrames }, (_, i) => (
+                    <option key={i} value={i}>Frame {i + 1}</option>
+                  ))}
+                </select>
+              </label>
+              <button onClick={handleAutoAlign} className="flex items-center space-x-1 px-2 py-1 rounded bg-indigo-600 hover:bg-indigo-500 text-[10px] text-white">
+                <Crosshair size={12} /><span>{pendingOffsets ? 'Recompute' : 'Compute'}</span>
+              </button>
+              {pendingOffsets && (
+                <>
+                  <button onClick={applyAlignment} className="flex items-center space-x-1 px-2 py-1 rounded bg-emerald-600 hover:bg-emerald-500 text-[10px] text-white">
+                    <Check size={12} /><span>Apply</span>
+                  </button>
+                  <button onClick={() => setPendingOffsets(null)} className="flex items-center space-x-1 px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-[10px] text-white">
+                    <X size={12} /><span>Discard</span>
+                  </button>
+                </>
+              )}
+              {!pendingOffsets && revertOffsets && (
+                <button onClick={revertAlignment} className="flex items-center space-x-1 px-2 py-1 rounded bg-slate-700 hover:bg-red-600 text-[10px] text-white" title="Restore the offsets from before auto-align">
+                  <Undo2 size={12} /><span>Revert Alignment</span>
+                </button>
+              )}
+            </div>
+            {pendingOffsets && <div className="text-[10px] text-amber-400">Previewing computed offsets. Apply to keep them.</div>}
+            {alignError && <div className="text-[10px] text-red-400">{alignError}</div>}
+          </div>
+          {pendingOffsets && (
+            <div className="w-40 h-40 flex-shrink-0">
+              <PreviewPlayer 
+                imageUrl={imageUrl} 
+                config={displayConfig} 
+                dimensions={dimensions} 
+                originalSourceUrl={originalSourceUrl}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Timeline Strip */}
+        <div className="border-b border-slate-800 bg-[#1a1d26] px-4 py-3">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-[10px] font-bold uppercase tracking-wider text-slate-500">
+              Timeline <span className="font-mono normal-case text-slate-600">({timeline.length} steps{config.sequence ? ', custom order' : ''})</span>
+            </div>
+            <div className="flex space-x-1">
+              <button onClick={pingPongSequence} className="flex items-center space-x-1 px-2 py-1 rounded bg-slate-700 hover:bg-indigo-600 text-[10px] text-white" title="Play forward then back">
+                <Repeat size={12} /><span>Ping-Pong</span>
+              </button>
+              <button onClick={reverseSequence} className="flex items-center space-x-1 px-2 py-1 rounded bg-slate-700 hover:bg-indigo-600 text-[10px] text-white" title="Reverse playback order">
+                <ArrowLeftRight size={12} /><span>Reverse</span>
+              </button>
+              <button onClick={() => updateSequence(undefined)} disabled={!config.sequence} className="flex items-center space-x-1 px-2 py-1 rounded bg-slate-700 hover:bg-red-600 text-[10px] text-white disabled:opacity-40 disabled:hover:bg-slate-700" title="Back to grid order">
+                <RotateCcw size={12} /><span>Reset</span>
+              </button>
+            </div>
+          </div>
+          <div 
+            className="flex items-center overflow-x-auto pb-1 min-h-[64px]"
+            onDragOver={(e) => handleTimelineDragOver(e, timeline.length)}
+            onDragLeave={() => setDropPosition(null)}
+            onDrop={(e) => handleTimelineDrop(e, timeline.length)}
+          >
+            {timeline.map((index, position) => {
+              const rect = getFrameRect(config, dimensions, index);
+              const thumbScale = Math.min(TIMELINE_THUMB_SIZE / frameWidth, TIMELINE_THUMB_SIZE / frameHeight);
+              return (
+                <div 
+                  key={position}
+                  draggable
+                  onDragStart={(e) => startDrag(e, { from: 'timeline', position })}
+                  onDragOver={(e) => { e.stopPropagation(); handleTimelineDragOver(e, position); }}
+                  onDrop={(e) => { e.stopPropagation(); handleTimelineDrop(e, position); }}
+                  className={`relative flex-shrink-0 mr-1 rounded border bg-slate-900 cursor-grab group ${dropPosition === position ? 'border-l-4 border-l-indigo-400 border-slate-700' : 'border-slate-700'}`}
+                  style={{ width: TIMELINE_THUMB_SIZE, height: TIMELINE_THUMB_SIZE + 12 }}
+                >
+                  <div className="overflow-hidden" style={{ width: TIMELINE_THUMB_SIZE, height: TIMELINE_THUMB_SIZE }}>
+                    <div 
+                      style={{
+                        backgroundImage: `url(${imageUrl})`,
+                        backgroundRepeat: 'no-repeat',
+                        width: rect.w,
+                        height: rect.h,
+                        transform: `scale(${thumbScale})`,
+                        transformOrigin: 'top left',
+                        backgroundPosition: `${-rect.x}px ${-rect.y}px`
+                      }}
+                    />
+                  </div>
+                  <div className="text-center text-[9px] font-mono text-slate-500 leading-3">{index + 1}</div>
+                  <button 
+                    onClick={() => removeFromSequence(position)}
+                    className="absolute -top-1 -right-1 p-0.5 rounded-full bg-red-600 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Remove from timeline"
+                  >
+                    <X size={8} />
+                  </button>
+                </div>
+              );
+            })}
+            <div className={`flex-shrink-0 h-12 px-3 flex items-center rounded border border-dashed text-[10px] ${dropPosition === timeline.length ? 'border-indigo-400 text-indigo-300' : 'border-slate-700 text-slate-600'}`}>
+              Drop frames here
+            </div>
+          </div>
+        </div>
+
+        {/* Grid / Onion Skin */}
+        <div className="flex-1 overflow-y-auto p-6 bg-[#0f1115] relative">
+          <div className="absolute top-3 right-4 z-10 flex bg-black/50 rounded border border-slate-800 p-0.5">
+            <button onClick={() => setView('grid')} className={`flex items-center space-x-1 px-2 py-1 rounded text-[10px] ${view === 'grid' ? 'bg-indigo-500/50 text-white' : 'text-slate-500 hover:text-slate-300'}`}>
+              <LayoutGrid size={12} /><span>Frames</span>
+            </button>
+            <button onClick={() => setView('onion')} className={`flex items-center space-x-1 px-2 py-1 rounded text-[10px] ${view === 'onion' ? 'bg-indigo-500/50 text-white' : 'text-slate-500 hover:text-slate-300'}`}>
+              <Layers size={12} /><span>Onion Skin</span>
+            </button>
+          </div>
+          {view === 'onion' ? (
+            <div className="pt-8">
+              <OnionSkinView imageUrl={imageUrl} config={displayConfig} dimensions={dimensions} onUpdateConfig={updateFromOnionSkin} maxSize={480} />
+            </div>
+          ) : (
           <div 
             className="grid gap-4"
             style={{ 
@@ -82,26 +370,20 @@ export const FrameEditorModal: React.FC<FrameEditorModalProps> = ({
             }}
           >
             {frames.map((index) => {
-              // Determine visual row/col based on configuration
-              let row, col;
-              if (config.direction === 'column') {
-                row = index % config.rows;
-                col = Math.floor(index / config.rows);
-              } else {
-                col = index % config.cols;
-                row = Math.floor(index / config.cols);
-              }
-
+              const rect = getFrameRect(config, dimensions, index);
               const isExcluded = config.excludedFrames?.includes(index);
-              const offset = config.frameOffsets?.[index] || { x: 0, y: 0 };
+              const offset = displayConfig.frameOffsets?.[index] || { x: 0, y: 0 };
+              const customDuration = config.frameDurations?.[index];
 
               // Calculate background position to show correct sprite slice
-              const bgPosX = -(col * frameWidth);
-              const bgPosY = -(row * frameHeight);
+              const bgPosX = -rect.x;
+              const bgPosY = -rect.y;
 
               return (
                 <div 
                   key={index} 
+                  draggable={!isExcluded}
+                  onDragStart={(e) => startDrag(e, { from: 'grid', index })}
                   className={`relative bg-slate-800 border-2 rounded-lg p-2 flex flex-col items-center transition-all ${isExcluded ? 'border-red-900/50 opacity-50 grayscale' : 'border-slate-700 hover:border-indigo-500'}`}
                 >
                   {/* Sprite Preview Box */}
@@ -113,8 +395,8 @@ export const FrameEditorModal: React.FC<FrameEditorModalProps> = ({
                             backgroundRepeat: 'no-repeat',
                             // The actual size of the background image needs to be the original dimensions scaled to fit this 96x96 box
                             // Actually, simpler approach: set the container to overflow hidden, and transform the inner div
-                            width: frameWidth,
-                            height: frameHeight,
+                            width: rect.w,
+                            height: rect.h,
                             // Scale down to fit preview box if frame is large
                             transform: `scale(${Math.min(96 / frameWidth, 96 / frameHeight)}) translate(${offset.x}px, ${offset.y}px)`, 
                             transformOrigin: 'top left',
@@ -131,7 +413,10 @@ export const FrameEditorModal: React.FC<FrameEditorModalProps> = ({
                   </div>
 
                   {/* Frame ID */}
-                  <div className="text-[10px] font-mono text-slate-500 mb-2">FRAME {index + 1}</div>
+                  <div className="w-full flex items-center justify-between mb-2">
+                     <span className="text-[10px] font-mono text-slate-500">FRAME {index + 1}</span>
+                     <button onClick={() => setPaintFrame(index)} className="p-1 rounded bg-slate-700 hover:bg-indigo-600 text-white" title="Paint this frame"><Paintbrush size={12} /></button>
+                  </div>
 
                   {/* Controls */}
                   <div className="w-full grid grid-cols-3 gap-1 mb-2">
@@ -148,6 +433,32 @@ export const FrameEditorModal: React.FC<FrameEditorModalProps> = ({
                      <div />
                   </div>
 
+                  {/* Hold */}
+                  <div className="w-full flex items-center space-x-1 mb-2">
+                     <Clock size={12} className={customDuration !== undefined ? 'text-amber-400' : 'text-slate-500'} />
+                     <input 
+                        type="number" 
+                        min={1}
+                        step={10}
+                        value={customDuration ?? ''}
+                        placeholder={`${baseDuration}`}
+                        onChange={(e) => updateFrameDuration(index, e.target.value === '' ? null : e.target.valueAsNumber)}
+                        className="w-full bg-black/50 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-300 focus:border-indigo-500 outline-none"
+                        title="Frame duration (ms)"
+                     />
+                     <span className="text-[10px] text-slate-500">ms</span>
+                     {[2, 3].map(hold => (
+                        <button 
+                          key={hold}
+                          onClick={() => updateFrameDuration(index, baseDuration * hold)}
+                          className="px-1 py-0.5 rounded bg-slate-700 hover:bg-amber-600 text-[10px] text-white"
+                          title={`Hold for ${hold} frames`}
+                        >
+                          ×{hold}
+                        </button>
+                     ))}
+                  </div>
+
                   <button 
                     onClick={() => toggleFrameExclusion(index)}
                     className={`w-full py-1 rounded text-[10px] font-bold uppercase tracking-wider flex items-center justify-center space-x-1 transition-colors ${isExcluded ? 'bg-emerald-900 text-emerald-400 hover:bg-emerald-800' : 'bg-red-900/30 text-red-400 hover:bg-red-900/50'}`}
@@ -159,8 +470,19 @@ export const FrameEditorModal: React.FC<FrameEditorModalProps> = ({
               );
             })}
           </div>
+          )}
         </div>
       </div>
+
+      {paintFrame !== null && paintFrame < config.totalFrames && (
+        <PixelEditor
+          imageUrl={imageUrl}
+          rect={getFrameRect(config, dimensions, paintFrame)}
+          frameIndex={paintFrame}
+          onApply={(newUrl) => { onUpdateImage(newUrl); setPaintFrame(null); }}
+          onClose={() => setPaintFrame(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,132 @@
+import React, { useRef } from 'react';
+import { SpriteConfig, ImageDimensions } from '../types';
+import { getFrameRect, getCellIndex, moveCellBoundary } from '../utils/slicing';
+
+interface GridSliceEditorProps {
+  imageUrl: string;
+  config: SpriteConfig;
+  dimensions: ImageDimensions;
+  onUpdateConfig: (key: keyof SpriteConfig, value: any) => void;
+}
+
+interface BoundaryDrag {
+  axis: 'col' | 'row';
+  boundary: number;
+  startClient: number;
+  startConfig: SpriteConfig; // Moves are applied to the config at drag start
+}
+
+/**
+ * Whole-sheet view with the slicing overlaid. Column/row boundaries can be dragged
+ * to fix uneven cells; the result is stored as explicit `frameRects`.
+ */
+export const GridSliceEditor: React.FC<GridSliceEditorProps> = ({
+  imageUrl,
+  config,
+  dimensions,
+  onUpdateConfig
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<BoundaryDrag | null>(null);
+
+  const pctX = (x: number) => `${(x / dimensions.width) * 100}%`;
+  const pctY = (y: number) => `${(y / dimensions.height) * 100}%`;
+
+  const handlePointerDown = (e: React.PointerEvent, axis: 'col' | 'row', boundary: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = {
+      axis,
+      boundary,
+      startClient: axis === 'col' ? e.clientX : e.clientY,
+      startConfig: config
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || !containerRef.current) return;
+    e.stopPropagation();
+
+    // Screen pixels -> sheet pixels (the canvas viewport may be zoomed)
+    const bounds = containerRef.current.getBoundingClientRect();
+    const pixelsPerScreen = drag.axis === 'col'
+      ? dimensions.width / bounds.width
+      : dimensions.height / bounds.height;
+    const client = drag.axis === 'col' ? e.clientX : e.clientY;
+    const delta = Math.round((client - drag.startClient) * pixelsPerScreen);
+
+    onUpdateConfig('frameRects', moveCellBoundary(drag.startConfig, dimensions, drag.axis, drag.boundary, delta));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    e.stopPropagation();
+    dragRef.current = null;
+  };
+
+  const frames = Array.from({ length: config.totalFrames }, (_, i) => i);
+  const spacing = config.spacing || 0;
+
+  return (
+    <div
+        ref={containerRef}
+        className="relative w-full select-none"
+        style={{ aspectRatio: `${dimensions.width}/${dimensions.height}` }}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onMouseDown={(e) => e.stopPropagation()}
+    >
+      <img
+          src={imageUrl}
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          style={{ imageRendering: 'pixelated' }}
+          alt=""
+      />
+
+      {/* Cell outlines */}
+      {frames.map((index) => {
+        const rect = getFrameRect(config, dimensions, index);
+        const isExcluded = config.excludedFrames?.includes(index);
+        return (
+          <div
+            key={index}
+            className={`absolute border pointer-events-none ${isExcluded ? 'border-red-500/60 bg-red-500/10' : 'border-cyan-400/80'}`}
+            style={{ left: pctX(rect.x), top: pctY(rect.y), width: pctX(rect.w), height: pctY(rect.h) }}
+          >
+            <span className="absolute top-0 left-0.5 text-[8px] font-mono text-cyan-300 mix-blend-difference">{index + 1}</span>
+          </div>
+        );
+      })}
+
+      {/* Draggable column boundaries (positioned from the first row) */}
+      {config.layout !== 'free' && Array.from({ length: Math.max(0, config.cols - 1) }, (_, i) => i + 1).map((boundary) => {
+        const rect = getFrameRect(config, dimensions, getCellIndex(config, 0, boundary));
+        return (
+          <div
+            key={`col-${boundary}`}
+            onPointerDown={(e) => handlePointerDown(e, 'col', boundary)}
+            className="absolute top-0 bottom-0 w-2 -ml-1 cursor-col-resize z-10 hover:bg-indigo-500/40"
+            style={{ left: pctX(rect.x - spacing / 2) }}
+            title="Drag to resize columns"
+          />
+        );
+      })}
+
+      {/* Draggable row boundaries (positioned from the first column) */}
+      {config.layout !== 'free' && Array.from({ length: Math.max(0, config.rows - 1) }, (_, i) => i + 1).map((boundary) => {
+        const rect = getFrameRect(config, dimensions, getCellIndex(config, boundary, 0));
+        return (
+          <div
+            key={`row-${boundary}`}
+            onPointerDown={(e) => handlePointerDown(e, 'row', boundary)}
+            className="absolute left-0 right-0 h-2 -mt-1 cursor-row-resize z-10 hover:bg-indigo-500/40"
+            style={{ top: pctY(rect.y - spacing / 2) }}
+            title="Drag to resize rows"
+          />
+        );
+      })}
+    </div>
+  );
+};
@@ -1,15 +1,18 @@
 import React from 'react';
-import { NodeGroup } from '../types';
+import { NodeGroup, AnimationFormat } from '../types';
 import { PreviewPlayer } from './PreviewPlayer';
-import { Wand2, Download, Trash2, ArrowRight, ArrowDown, Layers, Archive } from 'lucide-react';
+import { getGroupFileStem } from '../utils/fileNames';
+import { Wand2, Download, Trash2, ArrowRight, ArrowDown, Layers, Archive, Boxes, TriangleAlert } from 'lucide-react';
 
 interface GroupGridViewProps {
   groups: Record<string, NodeGroup>;
   onSelectGroup: (groupId: string) => void;
   onDeleteGroup: (groupId: string) => void;
-  onGenerateGif: (groupId: string) => void;
-  onBatchGenerateGif: () => void;
+  exportFormat: AnimationFormat;
+  onExportAnimation: (groupId: string) => void;
+  onBatchExportAnimation: () => void;
   onBatchDownload: () => void;
+  onPackAtlas: () => void;
   selectedGroupId: string | null;
 }
 
@@ -17,9 +20,11 @@ export const GroupGridView: React.FC<GroupGridViewProps> = ({
   groups,
   onSelectGroup,
   onDeleteGroup,
-  onGenerateGif,
-  onBatchGenerateGif,
+  exportFormat,
+  onExportAnimation,
+  onBatchExportAnimation,
   onBatchDownload,
+  onPackAtlas,
   selectedGroupId
 }) => {
   const groupList = (Object.values(groups) as NodeGroup[]).sort((a, b) => b.createdAt - a.createdAt);
@@ -34,10 +39,10 @@ export const GroupGridView: React.FC<GroupGridViewProps> = ({
           </div>
           <div className="flex items-center space-x-2">
              <button 
-                onClick={onBatchGenerateGif}
+                onClick={onBatchExportAnimation}
                 className="flex items-center space-x-2 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs rounded transition-colors shadow-sm"
              >
-                <Wand2 size={12} /><span>Batch Export GIF</span>
+                <Wand2 size={12} /><span>Batch Export {exportFormat.toUpperCase()}</span>
              </button>
              <button 
                 onClick={onBatchDownload}
@@ -45,6 +50,13 @@ export const GroupGridView: React.FC<GroupGridViewProps> = ({
              >
                 <Archive size={12} /><span>Batch Download</span>
              </button>
+             <button 
+                onClick={onPackAtlas}
+                className="flex items-center space-x-2 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs rounded transition-colors shadow-sm"
+                title="Trim and pack all groups into one atlas"
+             >
+                <Boxes size={12} /><span>Pack Atlas</span>
+             </button>
           </div>
        </div>
 
@@ -74,15 +86,15 @@ export const GroupGridView: React.FC<GroupGridViewProps> = ({
                   {/* Hover Overlay Actions */}
                   <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center space-x-2 backdrop-blur-[1px]">
                      <button 
-                        onClick={(e) => { e.stopPropagation(); onGenerateGif(group.id); }}
+                        onClick={(e) => { e.stopPropagation(); onExportAnimation(group.id); }}
                         className="p-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-full shadow-lg transform scale-90 hover:scale-100 transition-all"
-                        title="Quick Export GIF"
+                        title={`Quick Export ${exportFormat.toUpperCase()}`}
                      >
                         <Wand2 size={16} />
                      </button>
                      <a 
                         href={group.imageUrl || '#'}
-                        download={`source-${group.id.substring(0,6)}.png`}
+                        download={`${getGroupFileStem(group)}.png`}
                         onClick={(e) => e.stopPropagation()}
                         className="p-2 bg-slate-700 hover:bg-slate-600 text-white rounded-full shadow-lg transform scale-90 hover:scale-100 transition-all"
                         title="Download Source"
@@ -95,7 +107,12 @@ export const GroupGridView: React.FC<GroupGridViewProps> = ({
                 {/* Info Footer */}
                 <div className="p-3 bg-[#1a1d26]">
                    <div className="flex items-center justify-between mb-2">
-                      <span className="text-[10px] font-mono text-indigo-400 font-bold tracking-wider">{group.id.substring(0,8).toUpperCase()}</span>
+                      <div className="flex items-center min-w-0 mr-2">
+                         <span className="text-[10px] font-mono text-indigo-400 font-bold tracking-wider truncate" title={group.title || group.id}>{group.title || group.id.substring(0,8).toUpperCase()}</span>
+                         {group.validation && !group.validation.passed && (
+                            <span className="ml-1 shrink-0 text-amber-400" title={group.validation.issues.join('\n')}><TriangleAlert size={11} /></span>
+                         )}
+                      </div>
                       <div className="flex items-center space-x-1 bg-black/30 px-1.5 py-0.5 rounded text-[9px] text-slate-400 border border-slate-800">
                          <span>{group.config.rows}×{group.config.cols}</span>
                          <span className="text-slate-600">|</span>
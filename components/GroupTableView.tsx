@@ -1,7 +1,9 @@
 import React from 'react';
-import { NodeGroup, SpriteConfig } from '../types';
-import { ArrowRight, ArrowDown, Trash2, Download, Image as ImageIcon, Wand2, Layers, Archive, FileImage } from 'lucide-react';
+import { NodeGroup, SpriteConfig, AnimationFormat } from '../types';
+import { ANIMATION_FORMATS } from '../utils/animationExporter';
+import { ArrowRight, ArrowDown, Trash2, Download, Image as ImageIcon, Wand2, Layers, Archive, FileImage, Boxes } from 'lucide-react';
 import { PreviewPlayer } from './PreviewPlayer';
+import { getGroupFileStem } from '../utils/fileNames';
 
 interface GroupTableViewProps {
   groups: Record<string, NodeGroup>;
@@ -9,9 +11,12 @@ interface GroupTableViewProps {
   onDeleteGroup: (groupId: string) => void;
   onSelectGroup: (groupId: string) => void;
   selectedGroupId: string | null;
-  onGenerateGif: (groupId: string) => void;
-  onBatchGenerateGif: () => void;
+  exportFormat: AnimationFormat;
+  onExportFormatChange: (format: AnimationFormat) => void;
+  onExportAnimation: (groupId: string) => void;
+  onBatchExportAnimation: () => void;
   onBatchDownload: () => void;
+  onPackAtlas: () => void;
 }
 
 export const GroupTableView: React.FC<GroupTableViewProps> = ({
@@ -20,9 +25,12 @@ export const GroupTableView: React.FC<GroupTableViewProps> = ({
   onDeleteGroup,
   onSelectGroup,
   selectedGroupId,
-  onGenerateGif,
-  onBatchGenerateGif,
-  onBatchDownload
+  exportFormat,
+  onExportFormatChange,
+  onExportAnimation,
+  onBatchExportAnimation,
+  onBatchDownload,
+  onPackAtlas
 }) => {
   const groupList = (Object.values(groups) as NodeGroup[]).sort((a, b) => b.createdAt - a.createdAt);
 
@@ -44,11 +52,19 @@ export const GroupTableView: React.FC<GroupTableViewProps> = ({
              <span className="text-xs font-bold text-slate-300 uppercase tracking-wider">{groupList.length} Items</span>
           </div>
           <div className="flex items-center space-x-2">
+             <select 
+                value={exportFormat}
+                onChange={(e) => onExportFormatChange(e.target.value as AnimationFormat)}
+                className="bg-slate-900 border border-slate-700 focus:border-indigo-500 rounded px-1.5 py-1 text-slate-200 text-[10px] outline-none"
+                title="Animation Format"
+             >
+                {ANIMATION_FORMATS.map(format => <option key={format.id} value={format.id}>{format.label}</option>)}
+             </select>
              <button 
-                onClick={onBatchGenerateGif}
+                onClick={onBatchExportAnimation}
                 className="flex items-center space-x-1 px-3 py-1 bg-indigo-600 hover:bg-indigo-500 text-white text-[10px] rounded transition-colors shadow-sm"
              >
-                <Wand2 size={10} /><span>Batch GIF</span>
+                <Wand2 size={10} /><span>Batch {exportFormat.toUpperCase()}</span>
              </button>
              <button 
                 onClick={onBatchDownload}
@@ -56,6 +72,13 @@ export const GroupTableView: React.FC<GroupTableViewProps> = ({
              >
                 <Archive size={10} /><span>Batch Source</span>
              </button>
+             <button 
+                onClick={onPackAtlas}
+                className="flex items-center space-x-1 px-3 py-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-[10px] rounded transition-colors shadow-sm"
+                title="Trim and pack all groups into one atlas"
+             >
+                <Boxes size={10} /><span>Pack Atlas</span>
+             </button>
           </div>
        </div>
 
@@ -157,14 +180,14 @@ export const GroupTableView: React.FC<GroupTableViewProps> = ({
                             <td className="px-4 py-1 text-right align-middle">
                                 <div className="flex justify-end items-center space-x-1">
                                     <button 
-                                        onClick={(e) => { e.stopPropagation(); onGenerateGif(group.id); }}
+                                        onClick={(e) => { e.stopPropagation(); onExportAnimation(group.id); }}
                                         className="flex items-center space-x-1 px-2 py-1 bg-cyan-600 hover:bg-cyan-500 text-white rounded shadow-sm transition-colors text-[9px] font-bold uppercase tracking-wide"
                                     >
-                                        <Wand2 size={10} /><span>GIF</span>
+                                        <Wand2 size={10} /><span>{exportFormat}</span>
                                     </button>
                                     <a 
                                         href={group.imageUrl || '#'} 
-                                        download={`sheet-${group.id.substring(0,6)}.png`}
+                                        download={`${getGroupFileStem(group)}.png`}
                                         onClick={(e) => e.stopPropagation()}
                                         className="p-1 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white rounded border border-slate-700 hover:border-slate-500 transition-all shadow-sm"
                                     >
@@ -0,0 +1,89 @@
+import React from 'react';
+import { GenerationJob, JobStatus } from '../types';
+import { ListChecks, X, RotateCcw, Ban, LoaderCircle, CircleCheck, CircleAlert, Clock } from 'lucide-react';
+
+interface JobsPanelProps {
+  jobs: GenerationJob[];
+  onCancel: (jobId: string) => void;
+  onRetry: (jobId: string) => void;
+  onClearFinished: () => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'text-slate-400',
+  running: 'text-cyan-400',
+  done: 'text-emerald-400',
+  failed: 'text-red-400',
+  cancelled: 'text-slate-500',
+};
+
+const StatusIcon: React.FC<{ status: JobStatus }> = ({ status }) => {
+  switch (status) {
+    case 'queued': return <Clock size={12} />;
+    case 'running': return <LoaderCircle size={12} className="animate-spin" />;
+    case 'done': return <CircleCheck size={12} />;
+    case 'failed': return <CircleAlert size={12} />;
+    default: return <Ban size={12} />;
+  }
+};
+
+/**
+ * Floating list of generation jobs with cancel / retry controls.
+ */
+export const JobsPanel: React.FC<JobsPanelProps> = ({
+  jobs,
+  onCancel,
+  onRetry,
+  onClearFinished,
+  onClose
+}) => {
+  const count = (status: JobStatus) => jobs.filter(j => j.status === status).length;
+
+  return (
+    <div className="absolute bottom-4 right-4 z-30 w-80 max-h-[60vh] flex flex-col bg-[#15171e] border border-slate-700 rounded-lg shadow-2xl">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-slate-800">
+            <div className="flex items-center space-x-2 text-xs font-bold text-slate-300">
+                <ListChecks size={14} className="text-indigo-400" />
+                <span>Jobs</span>
+                <span className="text-[10px] font-normal text-slate-500 font-mono">
+                    {count('running')} running · {count('queued')} queued · {count('failed')} failed
+                </span>
+            </div>
+            <div className="flex items-center space-x-1">
+                <button onClick={onClearFinished} className="text-[10px] px-1.5 py-0.5 text-slate-500 hover:text-slate-300" title="Remove done and cancelled jobs">Clear</button>
+                <button onClick={onClose} className="text-slate-500 hover:text-white"><X size={14} /></button>
+            </div>
+        </div>
+        <div className="flex-1 overflow-y-auto p-2 space-y-1.5">
+            {jobs.length === 0 ? (
+                <div className="text-center text-[10px] text-slate-600 py-6">No generation jobs.</div>
+            ) : [...jobs].reverse().map(job => (
+                <div key={job.id} className="bg-slate-800/50 border border-slate-700/50 rounded p-2">
+                    <div className="flex items-center space-x-2">
+                        <span className={STATUS_STYLES[job.status]}><StatusIcon status={job.status} /></span>
+                        <span className="flex-1 text-[11px] text-slate-300 truncate" title={job.label}>{job.label}</span>
+                        {(job.status === 'queued' || job.status === 'running') && (
+                            <button onClick={() => onCancel(job.id)} className="p-0.5 text-slate-500 hover:text-red-400" title="Cancel"><X size={12} /></button>
+                        )}
+                        {(job.status === 'failed' || job.status === 'cancelled') && (
+                            <button onClick={() => onRetry(job.id)} className="p-0.5 text-slate-500 hover:text-cyan-400" title="Retry"><RotateCcw size={12} /></button>
+                        )}
+                    </div>
+                    {job.status === 'running' && (
+                        <div className="mt-1.5 h-1 bg-slate-900 rounded overflow-hidden">
+                            <div className="h-full bg-cyan-500 transition-all" style={{ width: `${job.progress}%` }} />
+                        </div>
+                    )}
+                    {job.error && (
+                        <div className="mt-1 text-[10px] text-red-400/80 truncate" title={job.error}>{job.error}</div>
+                    )}
+                    {job.attempts > 1 && (
+                        <div className="mt-0.5 text-[9px] text-slate-600 font-mono">attempt {job.attempts}</div>
+                    )}
+                </div>
+            ))}
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,206 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { SpriteConfig, ImageDimensions } from '../types';
+import { getPlaybackFrames } from '../utils/frameRenderer';
+import { getFrameRect, getFrameSize } from '../utils/slicing';
+import { ChevronLeft, ChevronRight, RotateCcw, Move } from 'lucide-react';
+
+interface OnionSkinViewProps {
+  imageUrl: string;
+  config: SpriteConfig;
+  dimensions: ImageDimensions;
+  onUpdateConfig: (key: keyof SpriteConfig, value: any) => void;
+  maxSize?: number; // Longest side of the view (px)
+}
+
+const MAX_NEIGHBOURS = 3;
+// Opacity of the frames 1, 2 and 3 steps away from the selected one
+const NEIGHBOUR_OPACITY = [0.45, 0.25, 0.12];
+// Earlier frames are tinted red, later ones green, so the direction of motion is readable
+const PREVIOUS_TINT = 'sepia(1) saturate(4) hue-rotate(-50deg)';
+const NEXT_TINT = 'sepia(1) saturate(4) hue-rotate(70deg)';
+
+/**
+ * One frame at full size with its neighbours in playback order overlaid.
+ * Drag the view (or use the arrow keys) to offset the selected frame.
+ */
+export const OnionSkinView: React.FC<OnionSkinViewProps> = ({
+  imageUrl,
+  config,
+  dimensions,
+  onUpdateConfig,
+  maxSize = 360
+}) => {
+  const [position, setPosition] = useState(0); // Index into the playback order
+  const [neighbours, setNeighbours] = useState(1);
+  const dragStart = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+  const playback = getPlaybackFrames(config);
+  const { width: frameWidth, height: frameHeight } = getFrameSize(config, dimensions);
+  const scale = Math.min(maxSize / frameWidth, maxSize / frameHeight);
+
+  // Keep the selection valid when frames are removed or the grid changes
+  useEffect(() => {
+    if (position >= playback.length) setPosition(Math.max(0, playback.length - 1));
+  }, [playback.length, position]);
+
+  if (playback.length === 0) {
+    return <div className="flex items-center justify-center h-32 text-xs text-slate-500">No playable frames.</div>;
+  }
+
+  const current = playback[Math.min(position, playback.length - 1)];
+  const offset = config.frameOffsets?.[current] || { x: 0, y: 0 };
+  const guides = config.guides || { baseline: null, center: false };
+
+  const setOffset = (x: number, y: number) => {
+    onUpdateConfig('frameOffsets', { ...config.frameOffsets, [current]: { x, y } });
+  };
+
+  const resetOffset = () => {
+    const newOffsets = { ...config.frameOffsets };
+    delete newOffsets[current];
+    onUpdateConfig('frameOffsets', newOffsets);
+  };
+
+  const step = (delta: number) => setPosition((position + delta + playback.length) % playback.length);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    e.currentTarget.focus();
+    dragStart.current = { pointerX: e.clientX, pointerY: e.clientY, x: offset.x, y: offset.y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    if (!start) return;
+    e.stopPropagation();
+    // Screen pixels -> frame pixels (the canvas viewport may be zoomed)
+    const pixelsPerScreen = frameWidth / e.currentTarget.getBoundingClientRect().width;
+    const x = start.x + Math.round((e.clientX - start.pointerX) * pixelsPerScreen);
+    const y = start.y + Math.round((e.clientY - start.pointerY) * pixelsPerScreen);
+    if (x !== offset.x || y !== offset.y) setOffset(x, y);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!dragStart.current) return;
+    e.stopPropagation();
+    dragStart.current = null;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const moves: Record<string, [number, number]> = { ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] };
+    const move = moves[e.key];
+    if (!move) return;
+    e.preventDefault();
+    const amount = e.shiftKey ? 10 : 1;
+    setOffset(offset.x + move[0] * amount, offset.y + move[1] * amount);
+  };
+
+  const updateGuides = (changes: Partial<typeof guides>) => {
+    onUpdateConfig('guides', { ...guides, ...changes });
+  };
+
+  // Same positioning as the frame tiles: the sheet moves inside a clipped cell.
+  // Keyed by role, since a sequence can show the same frame on both sides.
+  const renderLayer = (key: string, index: number, opacity: number, filter?: string) => {
+    const rect = getFrameRect(config, dimensions, index);
+    const layerOffset = config.frameOffsets?.[index] || { x: 0, y: 0 };
+    return (
+      <div
+        key={key}
+        className="absolute left-0 top-0 overflow-hidden pointer-events-none"
+        style={{ width: rect.w * scale, height: rect.h * scale, opacity, filter }}
+      >
+        <img
+          src={imageUrl}
+          alt=""
+          className="absolute max-w-none"
+          style={{
+            width: dimensions.width * scale,
+            height: dimensions.height * scale,
+            left: (layerOffset.x - rect.x) * scale,
+            top: (layerOffset.y - rect.y) * scale,
+            imageRendering: 'pixelated'
+          }}
+        />
+      </div>
+    );
+  };
+
+  // Farthest neighbours first, so nearer ones (and the selected frame) draw on top
+  const layers: React.ReactNode[] = [];
+  for (let distance = neighbours; distance >= 1; distance--) {
+    const opacity = NEIGHBOUR_OPACITY[distance - 1];
+    if (position - distance >= 0) layers.push(renderLayer(`prev-${distance}`, playback[position - distance], opacity, PREVIOUS_TINT));
+    if (position + distance < playback.length) layers.push(renderLayer(`next-${distance}`, playback[position + distance], opacity, NEXT_TINT));
+  }
+  layers.push(renderLayer('current', current, 1));
+
+  return (
+    <div className="flex flex-col items-center space-y-3">
+        {/* Controls */}
+        <div className="flex items-center flex-wrap justify-center gap-3 text-[10px] text-slate-400">
+            <div className="flex items-center space-x-1">
+                <button onClick={() => step(-1)} className="p-1 rounded bg-slate-800 hover:bg-indigo-600 text-white" title="Previous frame"><ChevronLeft size={12} /></button>
+                <span className="font-mono w-16 text-center">{position + 1}/{playback.length} · #{current + 1}</span>
+                <button onClick={() => step(1)} className="p-1 rounded bg-slate-800 hover:bg-indigo-600 text-white" title="Next frame"><ChevronRight size={12} /></button>
+            </div>
+            <label className="flex items-center space-x-1">
+                <span>Onion</span>
+                <input type="range" min={0} max={MAX_NEIGHBOURS} value={neighbours} onChange={(e) => setNeighbours(parseInt(e.target.value))} className="w-16 accent-indigo-500" />
+                <span className="font-mono w-3">{neighbours}</span>
+            </label>
+            <label className="flex items-center space-x-1 cursor-pointer">
+                <input type="checkbox" checked={guides.baseline !== null} onChange={(e) => updateGuides({ baseline: e.target.checked ? Math.round(frameHeight * 0.9) : null })} />
+                <span>Baseline</span>
+            </label>
+            {guides.baseline !== null && (
+                <input
+                    type="number"
+                    min={0}
+                    max={frameHeight}
+                    value={guides.baseline}
+                    onChange={(e) => updateGuides({ baseline: Math.max(0, Math.min(frameHeight, e.target.valueAsNumber || 0)) })}
+                    className="w-12 bg-black/50 border border-slate-700 rounded px-1 text-center text-slate-300 outline-none"
+                    title="Baseline (px from the frame top)"
+                />
+            )}
+            <label className="flex items-center space-x-1 cursor-pointer">
+                <input type="checkbox" checked={guides.center} onChange={(e) => updateGuides({ center: e.target.checked })} />
+                <span>Center</span>
+            </label>
+        </div>
+
+        {/* Stage */}
+        <div
+            tabIndex={0}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onMouseDown={(e) => e.stopPropagation()}
+            onKeyDown={handleKeyDown}
+            className="relative bg-slate-900 border border-slate-700 rounded cursor-move outline-none focus:border-indigo-500 overflow-hidden"
+            style={{ width: frameWidth * scale, height: frameHeight * scale, touchAction: 'none' }}
+            title="Drag or use the arrow keys (Shift = 10px) to offset this frame"
+        >
+            {layers}
+            {guides.baseline !== null && (
+                <div className="absolute left-0 right-0 h-px bg-cyan-400/80 pointer-events-none" style={{ top: guides.baseline * scale }} />
+            )}
+            {guides.center && (
+                <div className="absolute top-0 bottom-0 w-px bg-pink-400/80 pointer-events-none" style={{ left: (frameWidth / 2) * scale }} />
+            )}
+        </div>
+
+        <div className="flex items-center space-x-2 text-[10px] text-slate-500">
+            <Move size={10} />
+            <span className="font-mono">offset {offset.x}, {offset.y}</span>
+            {(offset.x !== 0 || offset.y !== 0) && (
+                <button onClick={resetOffset} className="p-0.5 rounded hover:bg-red-500/50 text-slate-400 hover:text-white" title="Reset offset"><RotateCcw size={10} /></button>
+            )}
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import { Palette, Pipette, Upload, UserRound, Wand2, X } from 'lucide-react';
+import { DEFAULT_PALETTE_SIZE, MAX_PALETTE_SIZE, PALETTE_FILE_EXTENSIONS } from '../utils/palette';
+
+interface PaletteLockPanelProps {
+  palette: string[]; // Locked palette, empty = none
+  profilePalette: string[] | null; // Palette of the selected group's character profile
+  disabled: boolean; // No image selected
+  isBusy: boolean;
+  onExtract: (colorCount: number) => void;
+  onImport: (file: File) => void;
+  onUseProfilePalette: () => void;
+  onClear: () => void;
+  onRemap: (dither: boolean) => void;
+}
+
+/**
+ * Locked palette for the remap pass: extracted from the selected sheet, imported from a
+ * palette file or taken from the character profile.
+ */
+export const PaletteLockPanel: React.FC<PaletteLockPanelProps> = ({
+  palette,
+  profilePalette,
+  disabled,
+  isBusy,
+  onExtract,
+  onImport,
+  onUseProfilePalette,
+  onClear,
+  onRemap
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Raw text while typing; clamped on blur and on extract so "16" can be typed
+  const [colorCountInput, setColorCountInput] = useState(String(DEFAULT_PALETTE_SIZE));
+  const [dither, setDither] = useState(false);
+
+  const clampColorCount = (): number => {
+    const count = Math.max(2, Math.min(MAX_PALETTE_SIZE, parseInt(colorCountInput) || DEFAULT_PALETTE_SIZE));
+    setColorCountInput(String(count));
+    return count;
+  };
+
+  return (
+    <div className="space-y-2">
+        <div className="flex items-center justify-between text-[10px] text-slate-500 uppercase tracking-widest">
+            <div className="flex items-center space-x-2"><Palette size={10} className="text-orange-400" /><span>Palette Lock</span></div>
+            {palette.length > 0 && (
+                <button onClick={onClear} className="text-slate-600 hover:text-slate-300" title="Clear palette"><X size={10} /></button>
+            )}
+        </div>
+
+        <div className="flex items-center space-x-1">
+            <input
+                type="number"
+                min={2}
+                max={MAX_PALETTE_SIZE}
+                value={colorCountInput}
+                onChange={(e) => setColorCountInput(e.target.value)}
+                onBlur={clampColorCount}
+                className="w-12 bg-[#0f1115] border border-slate-700 rounded px-1 py-1 text-[10px] text-slate-200 outline-none"
+                title="Colors to extract"
+            />
+            <button onClick={() => onExtract(clampColorCount())} disabled={disabled || isBusy} className="flex-1 py-1 text-[10px] bg-slate-800 border border-slate-700 rounded text-slate-400 hover:text-slate-200 flex items-center justify-center space-x-1 disabled:opacity-50" title="Median-cut palette of the selected sheet">
+                <Pipette size={10} /><span>Extract</span>
+            </button>
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept={PALETTE_FILE_EXTENSIONS.join(',')}
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onImport(file);
+                    e.target.value = '';
+                }}
+            />
+            <button onClick={() => fileInputRef.current?.click()} className="flex-1 py-1 text-[10px] bg-slate-800 border border-slate-700 rounded text-slate-400 hover:text-slate-200 flex items-center justify-center space-x-1" title={`Import ${PALETTE_FILE_EXTENSIONS.join(' / ')}`}>
+                <Upload size={10} /><span>Import</span>
+            </button>
+            {profilePalette && profilePalette.length > 0 && (
+                <button onClick={onUseProfilePalette} className="p-1 bg-slate-800 border border-slate-700 rounded text-pink-400 hover:text-pink-300" title="Use the character profile palette">
+                    <UserRound size={10} />
+                </button>
+            )}
+        </div>
+
+        {palette.length > 0 && (
+            <>
+                <div className="flex flex-wrap gap-0.5">
+                    {palette.map(color => (
+                        <span key={color} className="w-3 h-3 rounded-sm border border-black/40" style={{ backgroundColor: color }} title={color} />
+                    ))}
+                </div>
+                <label className="flex items-center space-x-2 cursor-pointer select-none">
+                    <input type="checkbox" checked={dither} onChange={(e) => setDither(e.target.checked)} className="rounded bg-slate-900 border-slate-700 text-cyan-500 focus:ring-0" />
+                    <span className="text-xs text-slate-400">Ordered dithering (Bayer 4x4)</span>
+                </label>
+                <button onClick={() => onRemap(dither)} disabled={disabled || isBusy} className="w-full py-1.5 text-xs bg-orange-900/30 border border-orange-800/60 rounded text-orange-300 hover:bg-orange-900/50 flex items-center justify-center space-x-2 disabled:opacity-50">
+                    <Wand2 size={12} /><span>Remap to {palette.length} Colors (New Group)</span>
+                </button>
+            </>
+        )}
+    </div>
+  );
+};
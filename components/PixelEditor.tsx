@@ -0,0 +1,319 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { FrameRect } from '../types';
+import {
+  RGBA, TRANSPARENT, hexToRgba, getPixelHex, drawLine, fillRect, floodFill,
+  rectFromPoints, cloneImageData, toPixelRect, readFrameCell, writeFrameCell
+} from '../utils/pixelEditing';
+import { X, Pencil, Eraser, PaintBucket, Pipette, SquareDashed, Undo2, Check, Trash2, LoaderCircle } from 'lucide-react';
+
+type PixelTool = 'pencil' | 'eraser' | 'fill' | 'eyedropper' | 'select';
+
+const TOOLS: { id: PixelTool; label: string; key: string; icon: React.ReactNode }[] = [
+  { id: 'pencil', label: 'Pencil', key: 'b', icon: <Pencil size={14} /> },
+  { id: 'eraser', label: 'Eraser', key: 'e', icon: <Eraser size={14} /> },
+  { id: 'fill', label: 'Fill', key: 'g', icon: <PaintBucket size={14} /> },
+  { id: 'eyedropper', label: 'Eyedropper', key: 'i', icon: <Pipette size={14} /> },
+  { id: 'select', label: 'Rectangle Select', key: 'm', icon: <SquareDashed size={14} /> }
+];
+
+const MAX_UNDO = 50;
+const CANVAS_SIZE = 480; // Longest side of the zoomed cell (px)
+
+interface PixelEditorProps {
+  imageUrl: string;
+  rect: FrameRect; // Cell on the sheet, may be fractional
+  frameIndex: number;
+  onApply: (imageUrl: string) => void; // New revision of the whole sheet
+  onClose: () => void;
+}
+
+/**
+ * Paints one cell of the sheet. Nothing touches the group until Apply, which writes
+ * the edited cell into a copy of the sheet.
+ */
+export const PixelEditor: React.FC<PixelEditorProps> = ({ imageUrl, rect: frameRect, frameIndex, onApply, onClose }) => {
+  // Read and written back with the same whole-pixel rect
+  const rect = toPixelRect(frameRect);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sheetRef = useRef<HTMLImageElement | null>(null);
+  const cellRef = useRef<ImageData | null>(null);
+  const undoStack = useRef<ImageData[]>([]);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const selectStart = useRef<{ x: number; y: number } | null>(null);
+
+  const [tool, setTool] = useState<PixelTool>('pencil');
+  const [color, setColor] = useState('#000000');
+  const [selection, setSelection] = useState<FrameRect | null>(null);
+  const [editCount, setEditCount] = useState(0); // Undo depth; re-renders after each edit
+  const [error, setError] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const zoom = Math.max(1, Math.floor(Math.min(CANVAS_SIZE / rect.w, CANVAS_SIZE / rect.h)));
+
+  const redraw = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx && cellRef.current) ctx.putImageData(cellRef.current, 0, 0);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoaded(false);
+    const img = new Image();
+    img.src = imageUrl;
+    img.decode()
+      .then(() => {
+        if (cancelled) return;
+        sheetRef.current = img;
+        cellRef.current = readFrameCell(img, rect);
+        undoStack.current = [];
+        setEditCount(0);
+        setSelection(null);
+        setIsLoaded(true);
+      })
+      .catch(e => {
+        console.error("Failed to load sheet for painting", e);
+        if (!cancelled) setError('Could not load the sheet.');
+      });
+    return () => { cancelled = true; };
+  }, [imageUrl, rect.x, rect.y, rect.w, rect.h]);
+
+  // Keyboard shortcuts need focus inside the editor
+  useEffect(() => {
+    containerRef.current?.focus();
+  }, []);
+
+  // The canvas mounts once the cell is loaded
+  useEffect(() => {
+    if (isLoaded) redraw();
+  }, [isLoaded]);
+
+  const pushUndo = () => {
+    if (!cellRef.current) return;
+    undoStack.current = [...undoStack.current, cloneImageData(cellRef.current)].slice(-MAX_UNDO);
+    setEditCount(undoStack.current.length);
+  };
+
+  const undo = () => {
+    const previous = undoStack.current.pop();
+    if (!previous) return;
+    cellRef.current = previous;
+    setEditCount(undoStack.current.length);
+    redraw();
+  };
+
+  const paintColor = (): RGBA => tool === 'eraser' ? TRANSPARENT : hexToRgba(color);
+
+  const clearSelection = (fill: RGBA) => {
+    if (!cellRef.current || !selection) return;
+    pushUndo();
+    fillRect(cellRef.current, selection, fill);
+    redraw();
+  };
+
+  // Screen pixels -> cell pixels (the canvas viewport may be zoomed)
+  const toCellPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(rect.w - 1, Math.floor((e.clientX - bounds.left) / bounds.width * rect.w))),
+      y: Math.max(0, Math.min(rect.h - 1, Math.floor((e.clientY - bounds.top) / bounds.height * rect.h)))
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const cell = cellRef.current;
+    if (!cell) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const point = toCellPoint(e);
+
+    switch (tool) {
+      case 'eyedropper': {
+        const hex = getPixelHex(cell, point.x, point.y);
+        if (hex) setColor(hex);
+        return;
+      }
+      case 'fill': {
+        const before = cloneImageData(cell);
+        if (floodFill(cell, point.x, point.y, paintColor(), selection)) {
+          undoStack.current = [...undoStack.current, before].slice(-MAX_UNDO);
+          setEditCount(undoStack.current.length);
+          redraw();
+        }
+        return;
+      }
+      case 'select':
+        selectStart.current = point;
+        setSelection(rectFromPoints(point.x, point.y, point.x, point.y));
+        break;
+      default:
+        pushUndo();
+        drawLine(cell, point.x, point.y, point.x, point.y, paintColor(), selection);
+        lastPoint.current = point;
+        redraw();
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const cell = cellRef.current;
+    if (!cell) return;
+    const point = toCellPoint(e);
+    if (selectStart.current) {
+      e.stopPropagation();
+      setSelection(rectFromPoints(selectStart.current.x, selectStart.current.y, point.x, point.y));
+    } else if (lastPoint.current) {
+      e.stopPropagation();
+      drawLine(cell, lastPoint.current.x, lastPoint.current.y, point.x, point.y, paintColor(), selection);
+      lastPoint.current = point;
+      redraw();
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!lastPoint.current && !selectStart.current) return;
+    e.stopPropagation();
+    lastPoint.current = null;
+    selectStart.current = null;
+  };
+
+  // Handled here so Ctrl+Z undoes the stroke, and document undo/redo can't change the sheet underneath
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement) return;
+    const key = e.key.toLowerCase();
+    if ((e.ctrlKey || e.metaKey) && (key === 'z' || key === 'y')) {
+      e.preventDefault();
+      e.stopPropagation();
+      if (key === 'z' && !e.shiftKey) undo();
+    } else if ((key === 'delete' || key === 'backspace') && selection) {
+      e.preventDefault();
+      e.stopPropagation();
+      clearSelection(TRANSPARENT);
+    } else if (key === 'escape') {
+      e.stopPropagation();
+      if (selection) setSelection(null); else onClose();
+    } else if (!e.ctrlKey && !e.metaKey) {
+      const shortcut = TOOLS.find(t => t.key === key);
+      if (shortcut) setTool(shortcut.id);
+    }
+  };
+
+  const apply = () => {
+    if (!sheetRef.current || !cellRef.current) return;
+    try {
+      onApply(writeFrameCell(sheetRef.current, cellRef.current, rect));
+    } catch (e) {
+      console.error("Failed to write the edited frame", e);
+      setError('Could not save the edited frame.');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/80 outline-none"
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
+      ref={containerRef}
+    >
+      <div className="bg-[#15171e] rounded-xl border border-slate-700 shadow-2xl flex flex-col max-w-[95vw] max-h-[90vh]">
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800 bg-[#1a1d26]">
+          <div>
+            <h3 className="text-sm font-bold text-slate-100">Paint Frame {frameIndex + 1}</h3>
+            <p className="text-[10px] text-slate-500">{rect.w}×{rect.h}px · applied as a new revision of the sheet</p>
+          </div>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white"><X size={18} /></button>
+        </div>
+
+        {/* Tools */}
+        <div className="flex items-center flex-wrap gap-2 px-4 py-2 border-b border-slate-800">
+          <div className="flex bg-black/50 rounded border border-slate-800 p-0.5">
+            {TOOLS.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setTool(t.id)}
+                className={`p-1.5 rounded ${tool === t.id ? 'bg-indigo-500/50 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                title={`${t.label} (${t.key.toUpperCase()})`}
+              >
+                {t.icon}
+              </button>
+            ))}
+          </div>
+          <input
+            type="color"
+            value={color}
+            onChange={(e) => setColor(e.target.value)}
+            className="w-8 h-7 bg-transparent border border-slate-700 rounded cursor-pointer"
+            title="Paint color"
+          />
+          <span className="font-mono text-[10px] text-slate-500">{color}</span>
+          {selection && (
+            <div className="flex items-center space-x-1 text-[10px]">
+              <span className="font-mono text-slate-500">{selection.w}×{selection.h}</span>
+              <button onClick={() => clearSelection(TRANSPARENT)} className="flex items-center space-x-1 px-2 py-1 rounded bg-slate-700 hover:bg-red-600 text-white" title="Erase the selection (Delete)">
+                <Trash2 size={12} /><span>Clear</span>
+              </button>
+              <button onClick={() => clearSelection(hexToRgba(color))} className="flex items-center space-x-1 px-2 py-1 rounded bg-slate-700 hover:bg-indigo-600 text-white" title="Fill the selection with the paint color">
+                <PaintBucket size={12} /><span>Fill</span>
+              </button>
+              <button onClick={() => setSelection(null)} className="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-white" title="Deselect (Esc)">
+                Deselect
+              </button>
+            </div>
+          )}
+          <div className="flex-1" />
+          <button onClick={undo} disabled={editCount === 0} className="flex items-center space-x-1 px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-[10px] text-white disabled:opacity-40" title="Undo (Ctrl+Z)">
+            <Undo2 size={12} /><span>Undo</span>
+          </button>
+        </div>
+
+        {/* Canvas */}
+        <div className="flex-1 overflow-auto p-4 flex items-center justify-center bg-[#0f1115]">
+          {error ? (
+            <div className="text-xs text-red-400">{error}</div>
+          ) : !isLoaded ? (
+            <LoaderCircle size={24} className="animate-spin text-slate-500" />
+          ) : (
+            <div
+              className="relative"
+              style={{
+                width: rect.w * zoom,
+                height: rect.h * zoom,
+                backgroundColor: '#e2e8f0',
+                backgroundImage: 'conic-gradient(#cbd5e1 25%, transparent 0 50%, #cbd5e1 0 75%, transparent 0)',
+                backgroundSize: `${Math.max(8, zoom * 2)}px ${Math.max(8, zoom * 2)}px`
+              }}
+            >
+              <canvas
+                ref={canvasRef}
+                width={rect.w}
+                height={rect.h}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onMouseDown={(e) => e.stopPropagation()}
+                className={`absolute inset-0 w-full h-full ${tool === 'select' ? 'cursor-crosshair' : 'cursor-cell'}`}
+                style={{ imageRendering: 'pixelated', touchAction: 'none' }}
+              />
+              {selection && (
+                <div
+                  className="absolute border border-dashed border-indigo-400 bg-indigo-400/10 pointer-events-none"
+                  style={{ left: selection.x * zoom, top: selection.y * zoom, width: selection.w * zoom, height: selection.h * zoom }}
+                />
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-2 px-4 py-3 border-t border-slate-800 bg-[#1a1d26]">
+          <button onClick={onClose} className="px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white">Cancel</button>
+          <button onClick={apply} disabled={editCount === 0} className="flex items-center space-x-1 px-3 py-1.5 rounded bg-emerald-600 hover:bg-emerald-500 text-xs text-white disabled:opacity-40">
+            <Check size={14} /><span>Apply</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,19 @@
 import React, { useRef, useEffect, useState } from 'react';
 import { SpriteConfig, ImageDimensions } from '../types';
-import { Play, Pause, SplitSquareHorizontal } from 'lucide-react';
+import { Play, Pause, SplitSquareHorizontal, Grid2x2, PaintBucket, Image as ImageIcon } from 'lucide-react';
+import { removeBackground, getBackgroundRemovalOptions } from '../utils/backgroundRemoval';
+import { getFrameDuration, getPlaybackFrames } from '../utils/frameRenderer';
+import { getFrameSize, getFrameSlice, getFrameRect, FrameSlice } from '../utils/slicing';
+
+type PreviewBackdrop = 'checker' | 'color' | 'image';
+
+const BACKDROP_ORDER: PreviewBackdrop[] = ['checker', 'color', 'image'];
+
+const CHECKER_STYLE: React.CSSProperties = {
+  backgroundColor: '#ffffff',
+  backgroundImage: 'conic-gradient(#cbd5e1 25%, transparent 0 50%, #cbd5e1 0 75%, transparent 0)',
+  backgroundSize: '16px 16px'
+};
 
 interface PreviewPlayerProps {
   imageUrl: string | null;
@@ -13,29 +26,82 @@ export const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ imageUrl, config,
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const comparisonCanvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
+  // Background-removed frames, rebuilt whenever the image or config changes
+  const keyedFramesRef = useRef<{ key: string; frames: Map<number, HTMLCanvasElement> }>({ key: '', frames: new Map() });
   
   const [isPlaying, setIsPlaying] = useState(true);
   const [currentFrameIndex, setCurrentFrameIndex] = useState(0);
   const [showCompare, setShowCompare] = useState(false);
   const [sliderPos, setSliderPos] = useState(50); // 0 to 100
+  // Backdrop behind the keyed frames, to judge the cutout before exporting
+  const [backdrop, setBackdrop] = useState<PreviewBackdrop>('checker');
+  const [backdropColor, setBackdropColor] = useState('#22c55e');
+  const [backdropImageUrl, setBackdropImageUrl] = useState<string | null>(null);
+  const backdropInputRef = useRef<HTMLInputElement>(null);
 
-  // Filter valid frame indices
-  const getValidFrames = () => {
-    const frames = [];
-    for (let i = 0; i < config.totalFrames; i++) {
-      if (!config.excludedFrames || !config.excludedFrames.includes(i)) {
-        frames.push(i);
-      }
+  useEffect(() => {
+    return () => {
+      if (backdropImageUrl) URL.revokeObjectURL(backdropImageUrl);
+    };
+  }, [backdropImageUrl]);
+
+  const cycleBackdrop = () => {
+    const next = BACKDROP_ORDER[(BACKDROP_ORDER.indexOf(backdrop) + 1) % BACKDROP_ORDER.length];
+    setBackdrop(next);
+    if (next === 'image' && !backdropImageUrl) backdropInputRef.current?.click();
+  };
+
+  const handleBackdropImage = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setBackdropImageUrl(URL.createObjectURL(file));
+    setBackdrop('image');
+    e.target.value = '';
+  };
+
+  const getBackdropStyle = (): React.CSSProperties => {
+    if (backdrop === 'color') return { backgroundColor: backdropColor };
+    if (backdrop === 'image' && backdropImageUrl) {
+      return { backgroundImage: `url(${backdropImageUrl})`, backgroundSize: 'cover', backgroundPosition: 'center' };
     }
-    return frames;
+    return CHECKER_STYLE;
   };
 
+  // Frame indices in playback order (sequence or grid order, minus excluded)
+  const getValidFrames = () => getPlaybackFrames(config);
+
   useEffect(() => {
     if (!imageUrl || !canvasRef.current || dimensions.width === 0) return;
 
     const img = new Image();
     img.src = imageUrl;
 
+    const cacheKey = JSON.stringify([imageUrl, dimensions, config]);
+    if (keyedFramesRef.current.key !== cacheKey) {
+      keyedFramesRef.current = { key: cacheKey, frames: new Map() };
+    }
+    const backgroundOptions = getBackgroundRemovalOptions(config);
+
+    // Same keying as the exporters so the preview matches the output
+    const getKeyedFrame = (frameIndex: number, slice: FrameSlice, frameWidth: number, frameHeight: number) => {
+      const cached = keyedFramesRef.current.frames.get(frameIndex);
+      if (cached) return cached;
+
+      const frameCanvas = document.createElement('canvas');
+      frameCanvas.width = frameWidth;
+      frameCanvas.height = frameHeight;
+      const frameCtx = frameCanvas.getContext('2d', { willReadFrequently: true });
+      if (!frameCtx) return null;
+
+      frameCtx.drawImage(img, slice.sx, slice.sy, slice.sw, slice.sh, slice.dx, slice.dy, slice.sw, slice.sh);
+      const imageData = frameCtx.getImageData(0, 0, frameWidth, frameHeight);
+      removeBackground(imageData, backgroundOptions);
+      frameCtx.putImageData(imageData, 0, 0);
+
+      keyedFramesRef.current.frames.set(frameIndex, frameCanvas);
+      return frameCanvas;
+    };
+
     let compareImg: HTMLImageElement | null = null;
     if (originalSourceUrl) {
         compareImg = new Image();
@@ -45,7 +111,6 @@ export const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ imageUrl, config,
     const animate = (time: number) => {
       if (!canvasRef.current) return;
       
-      const frameInterval = 1000 / config.fps;
       const validFrames = getValidFrames();
       
       if (validFrames.length === 0) {
@@ -54,7 +119,15 @@ export const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ imageUrl, config,
          return;
       }
 
-      const stepIndex = Math.floor(time / frameInterval) % validFrames.length;
+      // Variable timing: walk the loop until the elapsed time falls inside a frame
+      const durations = validFrames.map(i => getFrameDuration(config, i));
+      const loopDuration = durations.reduce((sum, d) => sum + d, 0);
+      let elapsed = time % loopDuration;
+      let stepIndex = 0;
+      while (stepIndex < durations.length - 1 && elapsed >= durations[stepIndex]) {
+        elapsed -= durations[stepIndex];
+        stepIndex++;
+      }
       const actualFrameIndex = validFrames[stepIndex];
       
       setCurrentFrameIndex(actualFrameIndex);
@@ -62,17 +135,7 @@ export const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ imageUrl, config,
       const ctx = canvasRef.current.getContext('2d');
       if (!ctx) return;
 
-      const frameWidth = dimensions.width / config.cols;
-      const frameHeight = dimensions.height / config.rows;
-
-      let col, row;
-      if (config.direction === 'column') {
-        row = actualFrameIndex % config.rows;
-        col = Math.floor(actualFrameIndex / config.rows);
-      } else {
-        col = actualFrameIndex % config.cols;
-        row = Math.floor(actualFrameIndex / config.cols);
-      }
+      const { width: frameWidth, height: frameHeight } = getFrameSize(config, dimensions);
 
       canvasRef.current.width = frameWidth;
       canvasRef.current.height = frameHeight;
@@ -81,17 +144,24 @@ export const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ imageUrl, config,
       ctx.imageSmoothingEnabled = false;
 
       // --- Draw Result Image ---
-      const offset = config.frameOffsets?.[actualFrameIndex] || { x: 0, y: 0 };
-      const sourceX = (col * frameWidth) - offset.x;
-      const sourceY = (row * frameHeight) - offset.y;
-
-      ctx.drawImage(
-        img,
-        sourceX, sourceY,
-        frameWidth, frameHeight,
-        0, 0,
-        frameWidth, frameHeight
-      );
+      const slice = getFrameSlice(config, dimensions, actualFrameIndex);
+
+      const imageReady = img.complete && img.naturalWidth > 0;
+      const keyedFrame = config.autoTransparent && imageReady
+        ? getKeyedFrame(actualFrameIndex, slice, frameWidth, frameHeight)
+        : null;
+
+      if (keyedFrame) {
+        ctx.drawImage(keyedFrame, 0, 0);
+      } else if (!config.autoTransparent) {
+        ctx.drawImage(
+          img,
+          slice.sx, slice.sy,
+          slice.sw, slice.sh,
+          slice.dx, slice.dy,
+          slice.sw, slice.sh
+        );
+      }
 
       // --- Draw Comparison Image (if enabled) ---
       if (showCompare && compareImg && compareImg.complete) {
@@ -113,15 +183,14 @@ export const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ imageUrl, config,
           
           // Draw Original (No offsets usually, or same offsets? Original is reference, so no offsets)
           // Wait, if we are correcting the new one to match original, original should be static at grid pos.
-          const origSourceX = col * frameWidth; // Original Grid has no offsets
-          const origSourceY = row * frameHeight;
+          const origRect = getFrameRect(config, dimensions, actualFrameIndex); // Original Grid has no offsets
 
           ctx.drawImage(
              compareImg,
-             origSourceX, origSourceY,
-             frameWidth, frameHeight,
-             0, 0,
-             frameWidth, frameHeight
+             origRect.x, origRect.y,
+             origRect.w, origRect.h,
+             slice.dx, slice.dy,
+             origRect.w, origRect.h
           );
           
           ctx.restore();
@@ -151,11 +220,37 @@ export const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ imageUrl, config,
         <canvas 
             ref={canvasRef} 
             className="max-w-full max-h-full object-contain image-pixelated"
-            style={{ imageRendering: 'pixelated' }}
+            style={{ imageRendering: 'pixelated', ...getBackdropStyle() }}
         />
         
         {/* Controls Overlay */}
         <div className="absolute bottom-2 right-2 flex space-x-1">
+             <input ref={backdropInputRef} type="file" accept="image/*" className="hidden" onChange={handleBackdropImage} />
+             {backdrop === 'color' && (
+                 <input 
+                    type="color" 
+                    value={backdropColor} 
+                    onChange={(e) => setBackdropColor(e.target.value)} 
+                    className="w-6 h-6 p-0 rounded bg-black/50 border border-white/10 cursor-pointer"
+                    title="Backdrop Color"
+                 />
+             )}
+             {backdrop === 'image' && (
+                 <button 
+                    onClick={() => backdropInputRef.current?.click()}
+                    className="px-1.5 rounded bg-black/50 hover:bg-slate-700 text-white text-[10px] backdrop-blur-sm transition-colors border border-white/10"
+                    title="Choose Backdrop Image"
+                 >
+                    ...
+                 </button>
+             )}
+             <button 
+                onClick={cycleBackdrop}
+                className="p-1.5 rounded bg-black/50 hover:bg-slate-700 text-white backdrop-blur-sm transition-colors border border-white/10"
+                title={`Backdrop: ${backdrop}`}
+             >
+                {backdrop === 'checker' ? <Grid2x2 size={12} /> : backdrop === 'color' ? <PaintBucket size={12} /> : <ImageIcon size={12} />}
+             </button>
              {originalSourceUrl && (
                  <button 
                     onClick={() => setShowCompare(!showCompare)}
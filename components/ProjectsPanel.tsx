@@ -0,0 +1,124 @@
+import React, { useState, useRef } from 'react';
+import { ProjectMeta } from '../types';
+import { FolderOpen, Plus, Copy, Trash2, Pencil, Check, X, Download, Upload } from 'lucide-react';
+import { PROJECT_FILE_EXTENSION } from '../services/projectFile';
+
+interface ProjectsPanelProps {
+  projects: ProjectMeta[];
+  currentProjectId: string | null;
+  onClose: () => void;
+  onOpen: (projectId: string) => void;
+  onCreate: () => void;
+  onRename: (projectId: string, name: string) => void;
+  onDuplicate: (projectId: string) => void;
+  onDelete: (projectId: string) => void;
+  onExport: () => void; // Current project as a .spriteproj file
+  onImport: (file: File) => void;
+}
+
+export const ProjectsPanel: React.FC<ProjectsPanelProps> = ({
+  projects,
+  currentProjectId,
+  onClose,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (project: ProjectMeta) => {
+    setEditingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+        <div className="bg-[#15171e] w-[640px] max-w-[90vw] h-[520px] max-h-[90vh] rounded-xl border border-slate-800 shadow-2xl flex flex-col">
+            <div className="flex items-center justify-between p-4 border-b border-slate-800">
+                <h2 className="text-lg font-bold text-white flex items-center gap-2"><FolderOpen size={18}/> Projects</h2>
+                <div className="flex items-center space-x-2">
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept={`.${PROJECT_FILE_EXTENSION},.zip`}
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) onImport(file);
+                            e.target.value = '';
+                        }}
+                    />
+                    <button onClick={() => fileInputRef.current?.click()} className="flex items-center space-x-1 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs rounded transition-colors" title={`Import a .${PROJECT_FILE_EXTENSION} file`}>
+                        <Upload size={12} /><span>Import</span>
+                    </button>
+                    <button onClick={onExport} disabled={!currentProjectId} className="flex items-center space-x-1 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs rounded transition-colors disabled:opacity-50" title={`Export the open project as .${PROJECT_FILE_EXTENSION}`}>
+                        <Download size={12} /><span>Export</span>
+                    </button>
+                    <button onClick={onCreate} className="flex items-center space-x-1 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs rounded transition-colors">
+                        <Plus size={12} /><span>New Project</span>
+                    </button>
+                    <button onClick={onClose}><X size={20} className="text-slate-400" /></button>
+                </div>
+            </div>
+            <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                {projects.length === 0 ? (
+                    <div className="text-center text-slate-600 mt-20">No projects yet.</div>
+                ) : projects.map((project) => {
+                    const isCurrent = project.id === currentProjectId;
+                    return (
+                        <div key={project.id} className={`flex items-center p-3 rounded border transition-colors ${isCurrent ? 'bg-indigo-900/20 border-indigo-700' : 'bg-slate-800/50 border-slate-700 hover:border-slate-500'}`}>
+                            <div className="flex-1 min-w-0">
+                                {editingId === project.id ? (
+                                    <div className="flex items-center space-x-1">
+                                        <input
+                                            autoFocus
+                                            value={draftName}
+                                            onChange={(e) => setDraftName(e.target.value)}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter') commitRename();
+                                                if (e.key === 'Escape') setEditingId(null);
+                                            }}
+                                            className="flex-1 bg-[#0f1115] border border-slate-600 rounded px-2 py-1 text-sm text-slate-200"
+                                        />
+                                        <button onClick={commitRename} className="p-1 text-emerald-400 hover:text-emerald-300"><Check size={14} /></button>
+                                    </div>
+                                ) : (
+                                    <div className="text-sm text-slate-200 truncate">{project.name}{isCurrent && <span className="ml-2 text-[10px] text-indigo-400">(open)</span>}</div>
+                                )}
+                                <div className="text-[10px] text-slate-500 font-mono mt-0.5">
+                                    {project.groupCount} groups · edited {new Date(project.updatedAt).toLocaleString()}
+                                </div>
+                            </div>
+                            <div className="flex items-center space-x-1 ml-3">
+                                {!isCurrent && (
+                                    <button onClick={() => onOpen(project.id)} className="px-2 py-1 text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 rounded">Open</button>
+                                )}
+                                <button onClick={() => startRename(project)} className="p-1.5 text-slate-400 hover:text-white rounded hover:bg-white/10" title="Rename"><Pencil size={12} /></button>
+                                <button onClick={() => onDuplicate(project.id)} className="p-1.5 text-slate-400 hover:text-white rounded hover:bg-white/10" title="Duplicate"><Copy size={12} /></button>
+                                <button
+                                    onClick={() => { if (confirm(`Delete project "${project.name}"?`)) onDelete(project.id); }}
+                                    className="p-1.5 text-slate-400 hover:text-red-400 rounded hover:bg-white/10"
+                                    title="Delete"
+                                >
+                                    <Trash2 size={12} />
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -1,6 +1,10 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { SpriteConfig, ImageDimensions } from '../types';
-import { Trash2, ChevronUp, ChevronDown, ChevronLeft, ChevronRight, RefreshCcw, Settings, ArrowRight, ArrowDown } from 'lucide-react';
+import { getFrameDuration } from '../utils/frameRenderer';
+import { getFrameRect } from '../utils/slicing';
+import { GridSliceEditor } from './GridSliceEditor';
+import { OnionSkinView } from './OnionSkinView';
+import { Trash2, ChevronUp, ChevronDown, ChevronLeft, ChevronRight, RefreshCcw, Settings, ArrowRight, ArrowDown, LayoutGrid, Scan, Layers } from 'lucide-react';
 
 interface SplitFrameEditorProps {
   imageUrl: string | null;
@@ -15,6 +19,10 @@ export const SplitFrameEditor: React.FC<SplitFrameEditorProps> = ({
   dimensions,
   onUpdateConfig
 }) => {
+  // 'tiles' = per-frame nudge grid, 'sheet' = whole sheet with draggable cell boundaries,
+  // 'onion' = one frame over its neighbours, dragged into place
+  const [view, setView] = useState<'tiles' | 'sheet' | 'onion'>('tiles');
+
   if (!imageUrl || dimensions.width === 0) {
     return (
         <div className="flex items-center justify-center h-64 text-slate-500 border-2 border-dashed border-slate-700 rounded-lg bg-slate-900/50">
@@ -23,10 +31,6 @@ export const SplitFrameEditor: React.FC<SplitFrameEditorProps> = ({
     );
   }
 
-  // Calculate strict frame dimensions
-  const frameWidth = dimensions.width / config.cols;
-  const frameHeight = dimensions.height / config.rows;
-
   const handleNudge = (e: React.MouseEvent, index: number, dx: number, dy: number) => {
     e.preventDefault();
     e.stopPropagation();
@@ -63,6 +67,22 @@ export const SplitFrameEditor: React.FC<SplitFrameEditorProps> = ({
     onUpdateConfig('excludedFrames', newExcluded);
   };
 
+  // Cycles the hold: 1x -> 2x -> 3x -> 4x -> back to the base FPS timing
+  const MAX_HOLD = 4;
+  const cycleHold = (e: React.MouseEvent, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const baseDuration = 1000 / config.fps;
+    const hold = Math.round(getFrameDuration(config, index) / baseDuration);
+    const newDurations = { ...config.frameDurations };
+    if (hold >= MAX_HOLD) {
+      delete newDurations[index];
+    } else {
+      newDurations[index] = Math.round(baseDuration * (hold + 1));
+    }
+    onUpdateConfig('frameDurations', newDurations);
+  };
+
   // Generate an array of indices based on totalFrames
   const frames = Array.from({ length: config.totalFrames }, (_, i) => i);
 
@@ -109,6 +129,62 @@ export const SplitFrameEditor: React.FC<SplitFrameEditorProps> = ({
                     <ArrowDown size={10} />
                 </button>
             </div>
+            <div className="w-px h-3 bg-slate-700"></div>
+            <div className="flex items-center space-x-1">
+                <span className="text-slate-500 font-bold">M</span>
+                <input 
+                    type="number" 
+                    min={0}
+                    value={config.margin || 0} 
+                    disabled={!!config.frameRects}
+                    onChange={(e) => onUpdateConfig('margin', Math.max(0, e.target.valueAsNumber || 0))}
+                    className="w-8 bg-black/50 border border-slate-700 rounded px-1 text-center text-slate-300 focus:border-indigo-500 outline-none disabled:opacity-40" 
+                    title="Outer margin (px)"
+                />
+                <span className="text-slate-500 font-bold">S</span>
+                <input 
+                    type="number" 
+                    min={0}
+                    value={config.spacing || 0} 
+                    disabled={!!config.frameRects}
+                    onChange={(e) => onUpdateConfig('spacing', Math.max(0, e.target.valueAsNumber || 0))}
+                    className="w-8 bg-black/50 border border-slate-700 rounded px-1 text-center text-slate-300 focus:border-indigo-500 outline-none disabled:opacity-40" 
+                    title="Spacing between cells (px)"
+                />
+                {config.frameRects && (
+                    <button 
+                        onClick={() => onUpdateConfig('frameRects', undefined)} 
+                        className="p-1 rounded text-amber-400 hover:text-white hover:bg-red-500/50"
+                        title="Reset custom cells to the uniform grid"
+                    >
+                        <RefreshCcw size={10} />
+                    </button>
+                )}
+            </div>
+            <div className="w-px h-3 bg-slate-700"></div>
+            <div className="flex bg-black/50 rounded border border-slate-800 p-0.5">
+                <button 
+                    onClick={() => setView('tiles')} 
+                    className={`p-1 rounded ${view === 'tiles' ? 'bg-indigo-500/50 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                    title="Frame Tiles"
+                >
+                    <LayoutGrid size={10} />
+                </button>
+                <button 
+                    onClick={() => setView('sheet')} 
+                    className={`p-1 rounded ${view === 'sheet' ? 'bg-indigo-500/50 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                    title="Sheet Slicing (drag cell boundaries)"
+                >
+                    <Scan size={10} />
+                </button>
+                <button 
+                    onClick={() => setView('onion')} 
+                    className={`p-1 rounded ${view === 'onion' ? 'bg-indigo-500/50 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                    title="Onion Skin (drag to align)"
+                >
+                    <Layers size={10} />
+                </button>
+            </div>
          </div>
          <div className="text-slate-500 flex items-center gap-1">
              <Settings size={10} />
@@ -117,6 +193,11 @@ export const SplitFrameEditor: React.FC<SplitFrameEditorProps> = ({
       </div>
 
       <div className="p-4">
+        {view === 'sheet' ? (
+            <GridSliceEditor imageUrl={imageUrl} config={config} dimensions={dimensions} onUpdateConfig={onUpdateConfig} />
+        ) : view === 'onion' ? (
+            <OnionSkinView imageUrl={imageUrl} config={config} dimensions={dimensions} onUpdateConfig={onUpdateConfig} maxSize={240} />
+        ) : (
         <div 
             className="grid gap-1"
             style={{ 
@@ -125,22 +206,15 @@ export const SplitFrameEditor: React.FC<SplitFrameEditorProps> = ({
             }}
         >
             {frames.map((index) => {
-            // Determine visual row/col based on configuration
-            let row, col;
-            if (config.direction === 'column') {
-                row = index % config.rows;
-                col = Math.floor(index / config.rows);
-            } else {
-                col = index % config.cols;
-                row = Math.floor(index / config.cols);
-            }
-
+            const rect = getFrameRect(config, dimensions, index);
             const isExcluded = config.excludedFrames?.includes(index);
             const offset = config.frameOffsets?.[index] || { x: 0, y: 0 };
             const hasOffset = offset.x !== 0 || offset.y !== 0;
+            const customDuration = config.frameDurations?.[index];
 
-            const xOffsetPct = (offset.x / frameWidth) * 100;
-            const yOffsetPct = (offset.y / frameHeight) * 100;
+            // Position the whole sheet so this frame's rect fills the tile
+            const leftPct = ((offset.x - rect.x) / rect.w) * 100;
+            const topPct = ((offset.y - rect.y) / rect.h) * 100;
 
             return (
                 <div 
@@ -148,7 +222,7 @@ export const SplitFrameEditor: React.FC<SplitFrameEditorProps> = ({
                 onContextMenu={(e) => toggleExclusion(e, index)}
                 className={`relative group overflow-hidden border border-slate-800 bg-slate-900 transition-colors ${isExcluded ? 'opacity-30 grayscale' : 'hover:border-indigo-500'}`}
                 style={{
-                    aspectRatio: `${frameWidth}/${frameHeight}`,
+                    aspectRatio: `${rect.w}/${rect.h}`,
                 }}
                 >
                 <img
@@ -156,10 +230,10 @@ export const SplitFrameEditor: React.FC<SplitFrameEditorProps> = ({
                     className="max-w-none pointer-events-none"
                     style={{
                         position: 'absolute',
-                        width: `${config.cols * 100}%`,
-                        height: `${config.rows * 100}%`,
-                        left: `calc(-${col * 100}% + ${xOffsetPct}%)`,
-                        top: `calc(-${row * 100}% + ${yOffsetPct}%)`,
+                        width: `${(dimensions.width / rect.w) * 100}%`,
+                        height: `${(dimensions.height / rect.h) * 100}%`,
+                        left: `${leftPct}%`,
+                        top: `${topPct}%`,
                         imageRendering: 'pixelated'
                     }}
                     alt=""
@@ -192,6 +266,14 @@ export const SplitFrameEditor: React.FC<SplitFrameEditorProps> = ({
                             <ChevronRight size={12} className="text-white drop-shadow-md" />
                         </button>
                         
+                        <button 
+                            onClick={(e) => cycleHold(e, index)}
+                            className="absolute top-0.5 right-0.5 px-1 rounded bg-black/60 hover:bg-amber-500/80 text-[8px] font-mono text-white z-20"
+                            title="Hold frame longer"
+                        >
+                            HOLD
+                        </button>
+
                         {hasOffset && (
                             <button 
                                 onClick={(e) => handleResetOffset(e, index)}
@@ -208,6 +290,12 @@ export const SplitFrameEditor: React.FC<SplitFrameEditorProps> = ({
                     {index + 1}
                 </div>
 
+                {customDuration !== undefined && !isExcluded && (
+                    <div className="absolute top-0.5 left-0.5 px-1 rounded bg-amber-500/80 text-[8px] font-mono text-white pointer-events-none z-20">
+                        {customDuration}ms
+                    </div>
+                )}
+
                 {isExcluded && (
                     <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-20 bg-black/40">
                         <Trash2 size={16} className="text-red-500" />
@@ -217,6 +305,7 @@ export const SplitFrameEditor: React.FC<SplitFrameEditorProps> = ({
             );
             })}
         </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,98 @@
+import { useState, useCallback } from 'react';
+
+/**
+ * Undo/redo over a single immutable state value.
+ * Consecutive updates with the same merge key (e.g. rapid nudges on one frame,
+ * a slider drag) collapse into one history step.
+ */
+
+export interface HistoryUpdateOptions {
+  mergeKey?: string; // Updates sharing this key within MERGE_WINDOW_MS form one step
+  record?: boolean; // false = replace the present without a history entry (derived state)
+}
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastMergeKey: string | null;
+  lastUpdate: number;
+}
+
+const HISTORY_LIMIT = 100;
+const MERGE_WINDOW_MS = 1000;
+
+export const useHistory = <T,>(initial: T) => {
+  const [history, setHistory] = useState<HistoryState<T>>({
+    past: [],
+    present: initial,
+    future: [],
+    lastMergeKey: null,
+    lastUpdate: 0
+  });
+
+  const setState = useCallback((update: T | ((prev: T) => T), options: HistoryUpdateOptions = {}) => {
+    setHistory(prev => {
+      const next = typeof update === 'function' ? (update as (prev: T) => T)(prev.present) : update;
+      if (next === prev.present) return prev;
+
+      if (options.record === false) {
+        return { ...prev, present: next };
+      }
+
+      const now = Date.now();
+      const merges = !!options.mergeKey &&
+        options.mergeKey === prev.lastMergeKey &&
+        now - prev.lastUpdate < MERGE_WINDOW_MS;
+
+      return {
+        past: merges ? prev.past : [...prev.past, prev.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+        lastMergeKey: options.mergeKey || null,
+        lastUpdate: now
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+        lastMergeKey: null,
+        lastUpdate: 0
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+        lastMergeKey: null,
+        lastUpdate: 0
+      };
+    });
+  }, []);
+
+  // Replaces the state and drops all history (e.g. when another project is opened)
+  const reset = useCallback((state: T) => {
+    setHistory({ past: [], present: state, future: [], lastMergeKey: null, lastUpdate: 0 });
+  }, []);
+
+  return {
+    state: history.present,
+    setState,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+};
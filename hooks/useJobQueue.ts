@@ -0,0 +1,15 @@
+import { useState, useRef } from 'react';
+import { GenerationJob } from '../types';
+import { createJobQueue, JobQueue } from '../services/jobQueue';
+
+/**
+ * One job queue per component lifetime; `jobs` re-renders on every status/progress change.
+ */
+export const useJobQueue = (concurrency: number) => {
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const queueRef = useRef<JobQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createJobQueue(concurrency, setJobs);
+  }
+  return { jobs, queue: queueRef.current };
+};
@@ -1,13 +1,26 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { SpriteConfig, ImageResolution, StylePresetId } from "../types";
+import { SpriteConfig, ImageResolution, StylePresetId, SpriteGenerationProvider } from "../types";
+
+// Overridable in .env.local (see vite.config.ts)
+const IMAGE_MODEL = process.env.GEMINI_IMAGE_MODEL || 'gemini-3-pro-image-preview';
+const ANALYSIS_MODEL = process.env.GEMINI_ANALYSIS_MODEL || 'gemini-2.5-flash';
+
+// We must recreate the AI client per call to ensure it picks up any newly selected API key
+const createClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
 
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-async function retryOperation<T>(operation: () => Promise<T>, retries = 3, delay = 1000): Promise<T> {
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException("Generation cancelled", "AbortError");
+};
+
+async function retryOperation<T>(operation: () => Promise<T>, retries = 3, delay = 1000, signal?: AbortSignal): Promise<T> {
   try {
+    throwIfAborted(signal);
     return await operation();
   } catch (error: any) {
+    if (signal?.aborted) throw error; // Cancelled jobs are never retried
     const isTransient = 
       error.status === 503 || 
       error.code === 503 || 
@@ -18,7 +31,7 @@ async function retryOperation<T>(operation: () => Promise<T>, retries = 3, delay
     if (retries > 0 && isTransient) {
       console.warn(`API Error (${error.status || error.code}). Retrying in ${delay}ms... (${retries} retries left)`);
       await sleep(delay);
-      return retryOperation(operation, retries - 1, delay * 2);
+      return retryOperation(operation, retries - 1, delay * 2, signal);
     }
     throw error;
   }
@@ -89,10 +102,10 @@ const determineAspectRatio = (base64Image: string): Promise<string> => {
 export const analyzeSpriteSheet = async (base64Image: string): Promise<Partial<SpriteConfig>> => {
   try {
     const imageParts = getBase64Parts(base64Image);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const ai = createClient();
 
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+      model: ANALYSIS_MODEL,
       contents: {
         parts: [
           {
@@ -153,7 +166,9 @@ export const generateSpriteVariant = async (
   characterBase64: string,
   prompt: string,
   size: ImageResolution,
-  stylePresetId: StylePresetId
+  stylePresetId: StylePresetId,
+  referenceSpriteSheet?: string | null,
+  signal?: AbortSignal
 ): Promise<string> => {
   // Determine best aspect ratio from the template image
   const targetAspectRatio = await determineAspectRatio(templateBase64);
@@ -184,35 +199,50 @@ export const generateSpriteVariant = async (
            - Just pure white.
         
         ${prompt ? `Additional instructions: ${prompt}` : ''}
+        ${referenceSpriteSheet ? `
+        CONSISTENCY REQUIREMENT:
+        A reference sprite sheet of this character is provided as the last image.
+        You MUST match its visual style, pixel density, stroke width, and color palette exactly.
+        ` : ''}
       `;
 
-      // We must recreate the AI client here to ensure it picks up any newly selected API key
-      const genClient = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      const genClient = createClient();
 
-      const response = await genClient.models.generateContent({
-        model: 'gemini-3-pro-image-preview',
-        contents: {
-          parts: [
-            { text: textPrompt },
-            {
-              inlineData: {
-                mimeType: templateParts.mimeType,
-                data: templateParts.data
-              }
-            },
-             {
-              inlineData: {
-                mimeType: characterParts.mimeType,
-                data: characterParts.data
-              }
-            }
-          ]
+      const parts: any[] = [
+        { text: textPrompt },
+        {
+          inlineData: {
+            mimeType: templateParts.mimeType,
+            data: templateParts.data
+          }
         },
+        {
+          inlineData: {
+            mimeType: characterParts.mimeType,
+            data: characterParts.data
+          }
+        }
+      ];
+
+      if (referenceSpriteSheet) {
+        const refParts = getBase64Parts(referenceSpriteSheet);
+        parts.push({
+          inlineData: {
+            mimeType: refParts.mimeType,
+            data: refParts.data
+          }
+        });
+      }
+
+      const response = await genClient.models.generateContent({
+        model: IMAGE_MODEL,
+        contents: { parts },
         config: {
           imageConfig: {
             imageSize: size,
             aspectRatio: targetAspectRatio 
-          }
+          },
+          abortSignal: signal
         }
       });
 
@@ -231,12 +261,15 @@ export const generateSpriteVariant = async (
       console.error("Gemini Generation Error:", error);
       throw error;
     }
-  });
+  }, 3, 1000, signal);
 };
 
 export const generateMemeConceptGrid = async (
   characterBase64: string,
-  stylePresetId: StylePresetId
+  stylePresetId: StylePresetId,
+  stylePrompt: string,
+  referenceSpriteSheet?: string | null,
+  signal?: AbortSignal
 ): Promise<string> => {
   return retryOperation(async () => {
     try {
@@ -252,7 +285,7 @@ export const generateMemeConceptGrid = async (
         
         CONTENT REQUIREMENTS:
         - The character must match the provided reference image exactly in terms of design.
-        - Style: ${styleDescription}.
+        - Style: ${styleDescription}. ${stylePrompt ? `Additional details: ${stylePrompt}` : ''}
         - EXPRESSIONS: Go for MAXIMUM EMOTION. Do not make subtle expressions.
           - Use "Anime/Cartoon Physics" exaggeration.
           - Examples: Eyes popping out, flooding tears, exploding with anger, turning into stone, rolling on floor laughing.
@@ -265,27 +298,43 @@ export const generateMemeConceptGrid = async (
         - Grid: Strictly 3 rows, 3 columns.
         - Spacing: Leave clear white space between the 9 items.
         - Background: Pure Solid White (#FFFFFF).
+        ${referenceSpriteSheet ? `
+        CONSISTENCY REQUIREMENT:
+        A reference sprite sheet of this character is provided as the last image.
+        You MUST match its visual style, pixel density, stroke width, and color palette exactly.
+        ` : ''}
       `;
 
-      const genClient = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      const parts: any[] = [
+        { text: textPrompt },
+        {
+          inlineData: {
+            mimeType: characterParts.mimeType,
+            data: characterParts.data
+          }
+        }
+      ];
+
+      if (referenceSpriteSheet) {
+        const refParts = getBase64Parts(referenceSpriteSheet);
+        parts.push({
+          inlineData: {
+            mimeType: refParts.mimeType,
+            data: refParts.data
+          }
+        });
+      }
+
+      const genClient = createClient();
       const response = await genClient.models.generateContent({
-        model: 'gemini-3-pro-image-preview',
-        contents: {
-          parts: [
-            { text: textPrompt },
-            {
-              inlineData: {
-                mimeType: characterParts.mimeType,
-                data: characterParts.data
-              }
-            }
-          ]
-        },
+        model: IMAGE_MODEL,
+        contents: { parts },
         config: {
           imageConfig: {
             imageSize: '2K', // High res for good slicing
             aspectRatio: "1:1"
-          }
+          },
+          abortSignal: signal
         }
       });
 
@@ -301,7 +350,7 @@ export const generateMemeConceptGrid = async (
       console.error("Gemini Meme Grid Error:", error);
       throw error;
     }
-  });
+  }, 3, 1000, signal);
 };
 
 export const generateActionSprite = async (
@@ -311,7 +360,8 @@ export const generateActionSprite = async (
   size: ImageResolution,
   stylePresetId: StylePresetId,
   referenceSpriteSheet?: string | null,
-  layoutReference?: string | null // NEW: User uploaded template to enforce grid OR a single image for pose reference
+  layoutReference?: string | null, // NEW: User uploaded template to enforce grid OR a single image for pose reference
+  signal?: AbortSignal
 ): Promise<string> => {
   return retryOperation(async () => {
     try {
@@ -394,7 +444,7 @@ export const generateActionSprite = async (
         A single image file containing the sprite sheet.
       `;
 
-      const genClient = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      const genClient = createClient();
       
       const parts: any[] = [{ text: textPrompt }];
       
@@ -429,13 +479,14 @@ export const generateActionSprite = async (
       }
 
       const response = await genClient.models.generateContent({
-        model: 'gemini-3-pro-image-preview',
+        model: IMAGE_MODEL,
         contents: { parts },
         config: {
           imageConfig: {
             imageSize: size,
             aspectRatio: "1:1" // Default to square for new actions unless layout dictates otherwise
-          }
+          },
+          abortSignal: signal
         }
       });
 
@@ -453,7 +504,7 @@ export const generateActionSprite = async (
       console.error("Gemini Action Generation Error:", error);
       throw error;
     }
-  });
+  }, 3, 1000, signal);
 };
 
 export const generateInterpolatedSprite = async (
@@ -462,7 +513,10 @@ export const generateInterpolatedSprite = async (
   templateReference: string | null,
   gridConfig: string, // e.g., "3x3", "4x3"
   stylePresetId: StylePresetId,
-  size: ImageResolution
+  size: ImageResolution,
+  stylePrompt: string,
+  referenceSpriteSheet?: string | null,
+  signal?: AbortSignal
 ): Promise<string> => {
     return retryOperation(async () => {
         try {
@@ -500,11 +554,19 @@ export const generateInterpolatedSprite = async (
 
             textPrompt += `
                 VISUAL STYLE:
-                - Style: ${styleDescription}.
+                - Style: ${styleDescription}. ${stylePrompt ? `Additional details: ${stylePrompt}` : ''}
                 - If a template reference is provided, strictly follow its layout density and character proportions.
                 - BACKGROUND: Pure Solid White (#FFFFFF). No transparency, no artifacts.
             `;
 
+            if (referenceSpriteSheet) {
+                textPrompt += `
+                CONSISTENCY REQUIREMENT:
+                A reference sprite sheet of this character is provided as the last image.
+                You MUST match its visual style, pixel density, stroke width, and color palette exactly.
+                `;
+            }
+
             const parts: any[] = [
                 { text: textPrompt },
                 {
@@ -535,15 +597,26 @@ export const generateInterpolatedSprite = async (
                 });
             }
 
-            const genClient = new GoogleGenAI({ apiKey: process.env.API_KEY });
+            if (referenceSpriteSheet) {
+                const sheetParts = getBase64Parts(referenceSpriteSheet);
+                parts.push({
+                    inlineData: {
+                        mimeType: sheetParts.mimeType,
+                        data: sheetParts.data
+                    }
+                });
+            }
+
+            const genClient = createClient();
             const response = await genClient.models.generateContent({
-                model: 'gemini-3-pro-image-preview',
+                model: IMAGE_MODEL,
                 contents: { parts },
                 config: {
                     imageConfig: {
                         imageSize: size,
                         aspectRatio: "1:1" // Typically grids are somewhat square, Gemini handles aspect well
-                    }
+                    },
+                    abortSignal: signal
                 }
             });
 
@@ -561,5 +634,16 @@ export const generateInterpolatedSprite = async (
             console.error("Interpolation Gen Error", e);
             throw e;
         }
-    });
+    }, 3, 1000, signal);
+};
+
+export const geminiProvider: SpriteGenerationProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  requiresApiKey: true,
+  analyzeSpriteSheet,
+  generateSpriteVariant,
+  generateMemeConceptGrid,
+  generateActionSprite,
+  generateInterpolatedSprite
 };
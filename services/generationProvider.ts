@@ -0,0 +1,25 @@
+import { GenerationProviderId, SpriteGenerationProvider } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+/**
+ * Selects the generation backend from SPRITE_PROVIDER in .env.local ('gemini' by default).
+ */
+
+const PROVIDERS: Record<GenerationProviderId, SpriteGenerationProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider
+};
+
+export const getGenerationProvider = (): SpriteGenerationProvider => {
+  const id = (process.env.SPRITE_PROVIDER || 'gemini') as GenerationProviderId;
+  const provider = PROVIDERS[id];
+  if (!provider) {
+    console.warn(`Unknown SPRITE_PROVIDER "${id}", using Gemini`);
+    return geminiProvider;
+  }
+  return provider;
+};
+
+// Display name for a stored provider id (e.g. the detection method of a group)
+export const getGenerationProviderLabel = (id: GenerationProviderId): string => PROVIDERS[id]?.label || id;
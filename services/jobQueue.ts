@@ -0,0 +1,134 @@
+import { GenerationJob } from "../types";
+
+/**
+ * Queue for long-running generation requests.
+ * At most `concurrency` jobs run at once; every job gets its own AbortSignal and
+ * progress callback. Failed or cancelled jobs keep their task so they can be retried.
+ */
+
+export type JobTask = (signal: AbortSignal, reportProgress: (progress: number) => void) => Promise<void>;
+
+export interface JobQueue {
+  enqueue: (label: string, task: JobTask) => string;
+  cancel: (jobId: string) => void;
+  retry: (jobId: string) => void;
+  clearFinished: () => void;
+  whenSettled: (jobId: string) => Promise<GenerationJob>;
+  getJobs: () => GenerationJob[];
+}
+
+interface QueueEntry {
+  job: GenerationJob;
+  task: JobTask;
+  controller: AbortController | null;
+}
+
+const isAbortError = (error: any) => error?.name === 'AbortError';
+
+const isSettled = (job: GenerationJob) => job.status === 'done' || job.status === 'failed' || job.status === 'cancelled';
+
+export const createJobQueue = (concurrency: number, onChange: (jobs: GenerationJob[]) => void): JobQueue => {
+  const entries: QueueEntry[] = [];
+  const waiters = new Map<string, ((job: GenerationJob) => void)[]>();
+
+  const notify = () => onChange(entries.map(entry => entry.job));
+
+  const update = (entry: QueueEntry, changes: Partial<GenerationJob>) => {
+    entry.job = { ...entry.job, ...changes };
+    notify();
+    if (isSettled(entry.job)) {
+      waiters.get(entry.job.id)?.forEach(resolve => resolve(entry.job));
+      waiters.delete(entry.job.id);
+    }
+  };
+
+  const run = async (entry: QueueEntry) => {
+    const controller = new AbortController();
+    entry.controller = controller;
+    update(entry, { status: 'running', progress: 0, error: undefined, attempts: entry.job.attempts + 1 });
+
+    try {
+      await entry.task(controller.signal, (progress) => {
+        if (!controller.signal.aborted) update(entry, { progress: Math.max(0, Math.min(100, progress)) });
+      });
+      // A cancelled run has already been settled by cancel()
+      if (controller.signal.aborted) return;
+      update(entry, { status: 'done', progress: 100, finishedAt: Date.now() });
+    } catch (error: any) {
+      if (controller.signal.aborted) return;
+      if (isAbortError(error)) {
+        update(entry, { status: 'cancelled', finishedAt: Date.now() });
+      } else {
+        console.error(`Job "${entry.job.label}" failed`, error);
+        update(entry, { status: 'failed', error: error?.message || String(error), finishedAt: Date.now() });
+      }
+    } finally {
+      if (entry.controller === controller) entry.controller = null;
+      pump();
+    }
+  };
+
+  // Starts queued jobs (oldest first) while slots are free
+  const pump = () => {
+    let running = entries.filter(e => e.job.status === 'running').length;
+    for (const entry of entries) {
+      if (running >= concurrency) break;
+      if (entry.job.status !== 'queued') continue;
+      running++;
+      run(entry);
+    }
+  };
+
+  const find = (jobId: string) => entries.find(e => e.job.id === jobId);
+
+  return {
+    enqueue: (label, task) => {
+      const job: GenerationJob = {
+        id: crypto.randomUUID(),
+        label,
+        status: 'queued',
+        progress: 0,
+        attempts: 0,
+        createdAt: Date.now()
+      };
+      entries.push({ job, task, controller: null });
+      notify();
+      pump();
+      return job.id;
+    },
+
+    cancel: (jobId) => {
+      const entry = find(jobId);
+      if (!entry) return;
+      if (entry.job.status !== 'queued' && entry.job.status !== 'running') return;
+      // The slot frees immediately; the aborted request settles in the background
+      entry.controller?.abort();
+      entry.controller = null;
+      update(entry, { status: 'cancelled', finishedAt: Date.now() });
+      pump();
+    },
+
+    retry: (jobId) => {
+      const entry = find(jobId);
+      if (!entry || (entry.job.status !== 'failed' && entry.job.status !== 'cancelled')) return;
+      update(entry, { status: 'queued', progress: 0, error: undefined, finishedAt: undefined });
+      pump();
+    },
+
+    clearFinished: () => {
+      for (let i = entries.length - 1; i >= 0; i--) {
+        if (entries[i].job.status === 'done' || entries[i].job.status === 'cancelled') entries.splice(i, 1);
+      }
+      notify();
+    },
+
+    // Resolves once the job is done, failed or cancelled (for jobs that build on another job's result)
+    whenSettled: (jobId) => {
+      const entry = find(jobId);
+      if (!entry || isSettled(entry.job)) return Promise.resolve(entry?.job as GenerationJob);
+      return new Promise(resolve => waiters.set(jobId, [...(waiters.get(jobId) || []), resolve]));
+    },
+
+    getJobs: () => entries.map(entry => entry.job)
+  };
+};
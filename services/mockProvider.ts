@@ -0,0 +1,249 @@
+import { SpriteConfig, ImageResolution, StylePresetId, SpriteGenerationProvider } from "../types";
+import { detectGridFromImage, LOW_CONFIDENCE_THRESHOLD } from "../utils/gridDetection";
+
+/**
+ * Offline provider for development and CI.
+ * Sheets are drawn locally: a stick-figure walk cycle on white, with colors and pose
+ * seeded from the request, so identical inputs always give identical images.
+ */
+
+const MOCK_LATENCY_MS = 600; // Lets the job queue's progress / cancel paths be exercised
+
+const CELL_SIZES: Record<ImageResolution, number> = { '1K': 96, '2K': 128, '4K': 192 };
+
+const abortableDelay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException("Generation cancelled", "AbortError"));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException("Generation cancelled", "AbortError"));
+    }, { once: true });
+  });
+
+// FNV-1a over every input, so the same request always draws the same sheet
+const hashInputs = (...inputs: (string | null | undefined)[]): number => {
+  let hash = 0x811c9dc5;
+  inputs.forEach(input => {
+    const text = input ?? '';
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    hash ^= 0xff; // Separator between inputs
+  });
+  return hash >>> 0;
+};
+
+// mulberry32
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+interface Figure {
+  bodyColor: string;
+  headColor: string;
+  stride: number; // Limb swing amplitude (radians)
+  bounce: number; // Vertical bob as a share of the cell height
+}
+
+const createFigure = (seed: number): Figure => {
+  const random = createRandom(seed);
+  const hue = Math.floor(random() * 360);
+  return {
+    bodyColor: `hsl(${hue}, 65%, 45%)`,
+    headColor: `hsl(${(hue + 30) % 360}, 55%, 70%)`,
+    stride: 0.3 + random() * 0.5,
+    bounce: 0.02 + random() * 0.05
+  };
+};
+
+const drawFigure = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, figure: Figure, phase: number) => {
+  const swing = Math.sin(phase) * figure.stride;
+  const cx = x + w / 2;
+  const groundY = y + h * 0.88;
+  const hipY = groundY - h * 0.3 - Math.abs(Math.sin(phase)) * h * figure.bounce;
+  const shoulderY = hipY - h * 0.25;
+  const limb = h * 0.28;
+
+  ctx.lineCap = 'round';
+  ctx.lineWidth = Math.max(2, w * 0.06);
+  ctx.strokeStyle = figure.bodyColor;
+
+  // Legs and arms swing in opposite directions
+  [swing, -swing].forEach(angle => {
+    ctx.beginPath();
+    ctx.moveTo(cx, hipY);
+    ctx.lineTo(cx + Math.sin(angle) * limb, hipY + Math.cos(angle) * limb);
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.moveTo(cx, shoulderY + h * 0.03);
+    ctx.lineTo(cx - Math.sin(angle) * limb * 0.8, shoulderY + h * 0.03 + Math.cos(angle) * limb * 0.8);
+    ctx.stroke();
+  });
+
+  // Torso
+  ctx.fillStyle = figure.bodyColor;
+  ctx.beginPath();
+  ctx.ellipse(cx, (hipY + shoulderY) / 2, w * 0.11, (hipY - shoulderY) / 2 + h * 0.02, 0, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Head with an eye, so facing direction is visible
+  const headR = h * 0.09;
+  ctx.fillStyle = figure.headColor;
+  ctx.beginPath();
+  ctx.arc(cx, shoulderY - headR, headR, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = '#1e1e1e';
+  ctx.beginPath();
+  ctx.arc(cx + headR * 0.4, shoulderY - headR * 1.1, Math.max(1, headR * 0.15), 0, Math.PI * 2);
+  ctx.fill();
+};
+
+/**
+ * A rows x cols sheet on pure white (like the real provider), one pose per cell.
+ */
+const renderSheet = (
+  rows: number,
+  cols: number,
+  cellW: number,
+  cellH: number,
+  poseOf: (index: number, total: number) => { figure: Figure; phase: number }
+): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(cols * cellW);
+  canvas.height = Math.round(rows * cellH);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create canvas context");
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const total = rows * cols;
+  for (let i = 0; i < total; i++) {
+    const { figure, phase } = poseOf(i, total);
+    drawFigure(ctx, (i % cols) * cellW, Math.floor(i / cols) * cellH, cellW, cellH, figure, phase);
+  }
+  return canvas.toDataURL('image/png');
+};
+
+const walkCycle = (seed: number) => {
+  const figure = createFigure(seed);
+  return (index: number, total: number) => ({ figure, phase: (index / total) * Math.PI * 2 });
+};
+
+const loadImage = async (url: string): Promise<HTMLImageElement> => {
+  const img = new Image();
+  img.src = url;
+  await img.decode();
+  return img;
+};
+
+const parseGrid = (gridConfig: string): { rows: number; cols: number } => {
+  const [rows, cols] = gridConfig.split('x').map(Number);
+  return { rows: rows || 3, cols: cols || 3 };
+};
+
+const analyzeSpriteSheet = async (image: string, signal?: AbortSignal): Promise<Partial<SpriteConfig>> => {
+  await abortableDelay(MOCK_LATENCY_MS / 2, signal);
+  const { rows, cols, totalFrames } = detectGridFromImage(await loadImage(image));
+  return { rows, cols, totalFrames };
+};
+
+const generateSpriteVariant = async (
+  template: string,
+  character: string,
+  prompt: string,
+  size: ImageResolution,
+  stylePresetId: StylePresetId,
+  referenceSpriteSheet?: string | null,
+  signal?: AbortSignal
+): Promise<string> => {
+  await abortableDelay(MOCK_LATENCY_MS, signal);
+  // Keep the template's canvas size and (if readable) its grid, like the real model is asked to
+  const img = await loadImage(template);
+  const detected = detectGridFromImage(img);
+  const { rows, cols } = detected.confidence >= LOW_CONFIDENCE_THRESHOLD ? detected : { rows: 4, cols: 4 };
+  const seed = hashInputs(template, character, prompt, stylePresetId);
+  return renderSheet(rows, cols, img.width / cols, img.height / rows, walkCycle(seed));
+};
+
+const generateMemeConceptGrid = async (
+  character: string,
+  stylePresetId: StylePresetId,
+  stylePrompt: string,
+  referenceSpriteSheet?: string | null,
+  signal?: AbortSignal
+): Promise<string> => {
+  await abortableDelay(MOCK_LATENCY_MS, signal);
+  const seed = hashInputs(character, stylePresetId, 'meme');
+  const cell = CELL_SIZES['2K'];
+  // Nine different stickers: own colors and a frozen pose each
+  return renderSheet(3, 3, cell, cell, (index) => ({
+    figure: createFigure(seed + index),
+    phase: index * 0.7
+  }));
+};
+
+const generateActionSprite = async (
+  character: string,
+  actionPrompt: string,
+  stylePrompt: string,
+  size: ImageResolution,
+  stylePresetId: StylePresetId,
+  referenceSpriteSheet?: string | null,
+  layoutReference?: string | null,
+  signal?: AbortSignal
+): Promise<string> => {
+  await abortableDelay(MOCK_LATENCY_MS, signal);
+  const cell = CELL_SIZES[size];
+  // The reference sheet is left out of the seed so every action of a character shares its colors
+  const seed = hashInputs(character, stylePresetId);
+  const figure = createFigure(seed);
+  const variation = createFigure(hashInputs(actionPrompt, stylePrompt, layoutReference));
+  return renderSheet(3, 3, cell, cell, (index, total) => ({
+    figure: { ...figure, stride: variation.stride, bounce: variation.bounce },
+    phase: (index / total) * Math.PI * 2
+  }));
+};
+
+const generateInterpolatedSprite = async (
+  startImage: string,
+  endImage: string | null,
+  templateReference: string | null,
+  gridConfig: string,
+  stylePresetId: StylePresetId,
+  size: ImageResolution,
+  stylePrompt: string,
+  referenceSpriteSheet?: string | null,
+  signal?: AbortSignal
+): Promise<string> => {
+  await abortableDelay(MOCK_LATENCY_MS, signal);
+  const { rows, cols } = parseGrid(gridConfig);
+  const cell = CELL_SIZES[size];
+  const seed = hashInputs(startImage, endImage, templateReference, stylePresetId);
+  const start = createFigure(seed);
+  const end = endImage ? createFigure(hashInputs(endImage)) : start;
+  // Half a swing from start to end pose
+  return renderSheet(rows, cols, cell, cell, (index, total) => {
+    const t = total > 1 ? index / (total - 1) : 0;
+    return {
+      figure: t < 0.5 ? start : end,
+      phase: t * Math.PI
+    };
+  });
+};
+
+export const mockProvider: SpriteGenerationProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  requiresApiKey: false,
+  analyzeSpriteSheet,
+  generateSpriteVariant,
+  generateMemeConceptGrid,
+  generateActionSprite,
+  generateInterpolatedSprite
+};
@@ -0,0 +1,200 @@
+import { NodeGroup, SavedAsset, CanvasNodeData, GenerationConfig, ProjectState, CharacterProfile } from "../types";
+import { createZip, readZip, ZipEntry } from "../utils/zip";
+import { normalizeSpriteConfig } from "../utils/spriteConfig";
+import { getExtensionForMimeType, getMimeTypeForFileName } from "../utils/fileNames";
+import { blobToDataUrl, DEFAULT_VIEWPORT } from "./projectStore";
+
+/**
+ * Portable project archives (.spriteproj).
+ * A ZIP with `manifest.json` plus every image as its own file, so sessions can move
+ * between machines. The manifest is versioned; older files are migrated on import.
+ */
+
+export const PROJECT_FILE_EXTENSION = 'spriteproj';
+const MANIFEST_NAME = 'manifest.json';
+const FORMAT_ID = 'spritemotion-project';
+export const PROJECT_FILE_VERSION = 2;
+
+// Prompts and references from the generation panel that travel with a project
+export type ProjectGenerationSettings = Pick<GenerationConfig, 'prompt' | 'actionPrompt' | 'stylePresetId' | 'size' | 'characterImage' | 'profileId'>;
+
+export interface ProjectArchive {
+  name: string;
+  state: ProjectState;
+  generation: ProjectGenerationSettings;
+}
+
+interface ManifestGroup extends Omit<NodeGroup, 'imageUrl' | 'originalSourceUrl' | 'revisions'> {
+  image: string | null; // Archive paths
+  originalSource: string | null;
+  revisions?: string[];
+}
+
+interface ManifestAsset extends Omit<SavedAsset, 'url'> {
+  file: string;
+}
+
+interface ManifestProfile extends Omit<CharacterProfile, 'characterImage' | 'referenceSheet'> {
+  characterImage: string; // Archive paths
+  referenceSheet: string | null;
+}
+
+interface ProjectManifest {
+  format: typeof FORMAT_ID;
+  version: number;
+  name: string;
+  exportedAt: number;
+  groups: ManifestGroup[];
+  nodes: CanvasNodeData[];
+  savedAssets: ManifestAsset[];
+  viewport: ProjectState['viewport'];
+  profiles: ManifestProfile[];
+  generation: Omit<ProjectGenerationSettings, 'characterImage'> & { characterImage: string | null };
+}
+
+/**
+ * Upgrades a manifest from `version` to `version + 1`. Add an entry whenever the
+ * manifest layout changes; new SpriteConfig fields are filled by normalizeSpriteConfig.
+ */
+const MIGRATIONS: Record<number, (manifest: any) => any> = {
+  // 2: character profiles
+  1: (manifest) => ({ ...manifest, profiles: [] })
+};
+
+const migrateManifest = (manifest: any): ProjectManifest => {
+  if (!manifest || manifest.format !== FORMAT_ID) throw new Error("Not a SpriteMotion project file");
+  if (typeof manifest.version !== 'number') throw new Error("Project file has no version");
+  if (manifest.version > PROJECT_FILE_VERSION) {
+    throw new Error(`Project file version ${manifest.version} is newer than this app supports (${PROJECT_FILE_VERSION})`);
+  }
+
+  let current = manifest;
+  while (current.version < PROJECT_FILE_VERSION) {
+    const migrate = MIGRATIONS[current.version];
+    if (!migrate) throw new Error(`No migration from project file version ${current.version}`);
+    current = { ...migrate(current), version: current.version + 1 };
+  }
+  return current as ProjectManifest;
+};
+
+const urlToBlob = async (url: string): Promise<Blob> => (await fetch(url)).blob();
+
+export const exportProjectFile = async (
+  name: string,
+  state: ProjectState,
+  generation: ProjectGenerationSettings
+): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const addFile = async (basePath: string, url: string): Promise<string> => {
+    const blob = await urlToBlob(url);
+    const path = `${basePath}.${getExtensionForMimeType(blob.type)}`;
+    entries.push({ name: path, data: new Uint8Array(await blob.arrayBuffer()) });
+    return path;
+  };
+
+  const groups: ManifestGroup[] = [];
+  for (const { imageUrl, originalSourceUrl, revisions, ...group } of Object.values(state.groups)) {
+    const revisionPaths: string[] = [];
+    for (const [i, url] of (revisions || []).entries()) {
+      revisionPaths.push(await addFile(`groups/${group.id}/revision-${i}`, url));
+    }
+    groups.push({
+      ...group,
+      image: imageUrl ? await addFile(`groups/${group.id}/image`, imageUrl) : null,
+      originalSource: originalSourceUrl ? await addFile(`groups/${group.id}/source`, originalSourceUrl) : null,
+      revisions: revisions && revisionPaths
+    });
+  }
+
+  const savedAssets: ManifestAsset[] = [];
+  for (const { url, ...asset } of state.savedAssets) {
+    savedAssets.push({ ...asset, file: await addFile(`assets/${asset.id}`, url) });
+  }
+
+  const profiles: ManifestProfile[] = [];
+  for (const { characterImage, referenceSheet, ...profile } of Object.values(state.profiles)) {
+    profiles.push({
+      ...profile,
+      characterImage: await addFile(`profiles/${profile.id}/character`, characterImage),
+      referenceSheet: referenceSheet ? await addFile(`profiles/${profile.id}/reference`, referenceSheet) : null
+    });
+  }
+
+  const manifest: ProjectManifest = {
+    format: FORMAT_ID,
+    version: PROJECT_FILE_VERSION,
+    name,
+    exportedAt: Date.now(),
+    groups,
+    nodes: state.nodes,
+    savedAssets,
+    viewport: state.viewport,
+    profiles,
+    generation: {
+      prompt: generation.prompt,
+      actionPrompt: generation.actionPrompt,
+      stylePresetId: generation.stylePresetId,
+      size: generation.size,
+      profileId: generation.profileId,
+      characterImage: generation.characterImage ? await addFile('generation/character', generation.characterImage) : null
+    }
+  };
+
+  entries.unshift({ name: MANIFEST_NAME, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
+
+export const importProjectFile = async (file: Blob): Promise<ProjectArchive> => {
+  const files = new Map((await readZip(file)).map(entry => [entry.name, entry.data]));
+  const manifestData = files.get(MANIFEST_NAME);
+  if (!manifestData) throw new Error("Project file has no manifest");
+  const manifest = migrateManifest(JSON.parse(new TextDecoder().decode(manifestData)));
+
+  const readFile = (path: string): Blob => {
+    const data = files.get(path);
+    if (!data) throw new Error(`Project file is missing ${path}`);
+    return new Blob([data], { type: getMimeTypeForFileName(path) });
+  };
+  // Group and reference images are kept as data URLs, like freshly generated ones
+  const readDataUrl = async (path: string | null) => path ? blobToDataUrl(readFile(path)) : null;
+
+  const groups: Record<string, NodeGroup> = {};
+  for (const { image, originalSource, revisions, ...group } of manifest.groups) {
+    groups[group.id] = {
+      ...group,
+      imageUrl: await readDataUrl(image),
+      originalSourceUrl: await readDataUrl(originalSource),
+      revisions: revisions && await Promise.all(revisions.map(path => blobToDataUrl(readFile(path)))),
+      config: normalizeSpriteConfig(group.config)
+    };
+  }
+
+  const savedAssets: SavedAsset[] = (manifest.savedAssets || []).map(({ file: path, ...asset }) => ({
+    ...asset,
+    url: URL.createObjectURL(readFile(path))
+  }));
+
+  const profiles: Record<string, CharacterProfile> = {};
+  for (const { characterImage, referenceSheet, ...profile } of manifest.profiles) {
+    profiles[profile.id] = {
+      ...profile,
+      characterImage: (await readDataUrl(characterImage))!,
+      referenceSheet: await readDataUrl(referenceSheet)
+    };
+  }
+
+  return {
+    name: manifest.name,
+    state: {
+      groups,
+      nodes: manifest.nodes || [],
+      savedAssets,
+      viewport: manifest.viewport || DEFAULT_VIEWPORT,
+      profiles
+    },
+    generation: {
+      ...manifest.generation,
+      characterImage: await readDataUrl(manifest.generation?.characterImage || null)
+    }
+  };
+};
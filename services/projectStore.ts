@@ -0,0 +1,265 @@
+import { NodeGroup, SavedAsset, CanvasNodeData, ViewportState, ProjectMeta, ProjectState, CharacterProfile } from "../types";
+import { normalizeSpriteConfig } from "../utils/spriteConfig";
+
+/**
+ * Project persistence on IndexedDB.
+ * Metadata and project contents live in separate stores so the project list
+ * loads without touching any image data. Images are stored as Blobs.
+ */
+
+const DB_NAME = 'spriteMotion';
+const DB_VERSION = 1;
+const META_STORE = 'projects';
+const DATA_STORE = 'projectData';
+const LAST_PROJECT_KEY = 'spriteMotion_lastProject';
+
+interface StoredGroup extends Omit<NodeGroup, 'imageUrl' | 'originalSourceUrl' | 'revisions'> {
+  image: Blob | null;
+  originalSource: Blob | null;
+  revisions?: Blob[];
+}
+
+interface StoredAsset extends Omit<SavedAsset, 'url'> {
+  blob: Blob;
+}
+
+interface StoredProfile extends Omit<CharacterProfile, 'characterImage' | 'referenceSheet'> {
+  characterImage: Blob;
+  referenceSheet: Blob | null;
+}
+
+interface StoredProject {
+  id: string;
+  groups: StoredGroup[];
+  nodes: CanvasNodeData[];
+  savedAssets: StoredAsset[];
+  viewport: ViewportState;
+  profiles?: StoredProfile[]; // Missing in projects saved before character profiles
+}
+
+export const DEFAULT_VIEWPORT: ViewportState = { scale: 0.6, x: 50, y: 50 };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error("Could not open project database"));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+
+// URL -> Blob for images already stored, so autosaves don't re-fetch unchanged images
+const blobCache = new Map<string, Blob>();
+
+const urlToBlob = async (url: string): Promise<Blob> => {
+  const cached = blobCache.get(url);
+  if (cached) return cached;
+  const blob = await (await fetch(url)).blob();
+  blobCache.set(url, blob);
+  return blob;
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const serializeProject = async (id: string, state: ProjectState): Promise<StoredProject> => {
+  const groups = await Promise.all(Object.values(state.groups).map(async ({ imageUrl, originalSourceUrl, revisions, ...group }): Promise<StoredGroup> => ({
+    ...group,
+    image: imageUrl ? await urlToBlob(imageUrl) : null,
+    originalSource: originalSourceUrl ? await urlToBlob(originalSourceUrl) : null,
+    revisions: revisions && await Promise.all(revisions.map(urlToBlob))
+  })));
+  const savedAssets = await Promise.all(state.savedAssets.map(async ({ url, ...asset }): Promise<StoredAsset> => ({
+    ...asset,
+    blob: await urlToBlob(url)
+  })));
+  const profiles = await Promise.all(Object.values(state.profiles).map(async ({ characterImage, referenceSheet, ...profile }): Promise<StoredProfile> => ({
+    ...profile,
+    characterImage: await urlToBlob(characterImage),
+    referenceSheet: referenceSheet ? await urlToBlob(referenceSheet) : null
+  })));
+
+  // Forget images that are no longer referenced
+  const inUse = new Set<string>();
+  Object.values(state.groups).forEach(g => {
+    if (g.imageUrl) inUse.add(g.imageUrl);
+    if (g.originalSourceUrl) inUse.add(g.originalSourceUrl);
+    g.revisions?.forEach(url => inUse.add(url));
+  });
+  state.savedAssets.forEach(a => inUse.add(a.url));
+  Object.values(state.profiles).forEach(p => {
+    inUse.add(p.characterImage);
+    if (p.referenceSheet) inUse.add(p.referenceSheet);
+  });
+  Array.from(blobCache.keys()).forEach(url => { if (!inUse.has(url)) blobCache.delete(url); });
+
+  return { id, groups, nodes: state.nodes, savedAssets, viewport: state.viewport, profiles };
+};
+
+/**
+ * Group and profile images come back as data URLs (the Gemini calls expect base64),
+ * library assets as object URLs.
+ */
+const deserializeProject = async (stored: StoredProject): Promise<ProjectState> => {
+  const groups: Record<string, NodeGroup> = {};
+  for (const { image, originalSource, revisions: revisionBlobs, ...group } of stored.groups) {
+    const imageUrl = image ? await blobToDataUrl(image) : null;
+    const originalSourceUrl = originalSource ? await blobToDataUrl(originalSource) : null;
+    if (imageUrl && image) blobCache.set(imageUrl, image);
+    if (originalSourceUrl && originalSource) blobCache.set(originalSourceUrl, originalSource);
+    let revisions: string[] | undefined;
+    if (revisionBlobs) {
+      revisions = await Promise.all(revisionBlobs.map(blobToDataUrl));
+      revisions.forEach((url, i) => blobCache.set(url, revisionBlobs[i]));
+    }
+    groups[group.id] = { ...group, imageUrl, originalSourceUrl, revisions, config: normalizeSpriteConfig(group.config) };
+  }
+
+  const savedAssets = stored.savedAssets.map(({ blob, ...asset }) => {
+    const url = URL.createObjectURL(blob);
+    blobCache.set(url, blob);
+    return { ...asset, url };
+  });
+
+  const profiles: Record<string, CharacterProfile> = {};
+  for (const { characterImage, referenceSheet, ...profile } of stored.profiles || []) {
+    const characterUrl = await blobToDataUrl(characterImage);
+    const referenceUrl = referenceSheet ? await blobToDataUrl(referenceSheet) : null;
+    blobCache.set(characterUrl, characterImage);
+    if (referenceUrl && referenceSheet) blobCache.set(referenceUrl, referenceSheet);
+    profiles[profile.id] = { ...profile, characterImage: characterUrl, referenceSheet: referenceUrl };
+  }
+
+  return {
+    groups,
+    nodes: stored.nodes || [],
+    savedAssets,
+    viewport: stored.viewport || DEFAULT_VIEWPORT,
+    profiles
+  };
+};
+
+const emptyStoredProject = (id: string): StoredProject =>
+  ({ id, groups: [], nodes: [], savedAssets: [], viewport: DEFAULT_VIEWPORT, profiles: [] });
+
+export const listProjects = async (): Promise<ProjectMeta[]> => {
+  const db = await openDatabase();
+  const projects = await requestResult<ProjectMeta[]>(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const createProject = async (name: string): Promise<ProjectMeta> => {
+  const db = await openDatabase();
+  const now = Date.now();
+  const meta: ProjectMeta = { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now, groupCount: 0 };
+
+  const tx = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+  tx.objectStore(META_STORE).put(meta);
+  tx.objectStore(DATA_STORE).put(emptyStoredProject(meta.id));
+  await transactionDone(tx);
+  return meta;
+};
+
+export const saveProject = async (id: string, state: ProjectState): Promise<ProjectMeta> => {
+  // Blobs are gathered before the transaction opens: IndexedDB transactions close across awaits
+  const stored = await serializeProject(id, state);
+  const db = await openDatabase();
+
+  const tx = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+  const metaStore = tx.objectStore(META_STORE);
+  const existing = await requestResult<ProjectMeta | undefined>(metaStore.get(id));
+  if (!existing) throw new Error("Project not found");
+
+  const meta: ProjectMeta = { ...existing, updatedAt: Date.now(), groupCount: stored.groups.length };
+  metaStore.put(meta);
+  tx.objectStore(DATA_STORE).put(stored);
+  await transactionDone(tx);
+  return meta;
+};
+
+export const loadProject = async (id: string): Promise<ProjectState> => {
+  const db = await openDatabase();
+  const stored = await requestResult<StoredProject | undefined>(db.transaction(DATA_STORE).objectStore(DATA_STORE).get(id));
+  return deserializeProject(stored || emptyStoredProject(id));
+};
+
+export const renameProject = async (id: string, name: string): Promise<ProjectMeta> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  const store = tx.objectStore(META_STORE);
+  const existing = await requestResult<ProjectMeta | undefined>(store.get(id));
+  if (!existing) throw new Error("Project not found");
+
+  const meta: ProjectMeta = { ...existing, name };
+  store.put(meta);
+  await transactionDone(tx);
+  return meta;
+};
+
+export const duplicateProject = async (id: string): Promise<ProjectMeta> => {
+  const db = await openDatabase();
+  const tx = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+  const existing = await requestResult<ProjectMeta | undefined>(tx.objectStore(META_STORE).get(id));
+  const stored = await requestResult<StoredProject | undefined>(tx.objectStore(DATA_STORE).get(id));
+  if (!existing) throw new Error("Project not found");
+
+  const now = Date.now();
+  const meta: ProjectMeta = { ...existing, id: crypto.randomUUID(), name: `${existing.name} (copy)`, createdAt: now, updatedAt: now };
+  tx.objectStore(META_STORE).put(meta);
+  tx.objectStore(DATA_STORE).put({ ...(stored || emptyStoredProject(id)), id: meta.id });
+  await transactionDone(tx);
+  return meta;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+  tx.objectStore(META_STORE).delete(id);
+  tx.objectStore(DATA_STORE).delete(id);
+  await transactionDone(tx);
+  if (getLastProjectId() === id) localStorage.removeItem(LAST_PROJECT_KEY);
+};
+
+export const getLastProjectId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_PROJECT_KEY);
+  } catch (e) {
+    return null;
+  }
+};
+
+export const setLastProjectId = (id: string) => {
+  try {
+    localStorage.setItem(LAST_PROJECT_KEY, id);
+  } catch (e) { console.error(e); }
+};
@@ -1,15 +1,40 @@
 
+export type ScaleFilter = 'nearest' | 'smooth';
+
+export interface FrameRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export type SliceLayout = 'grid' | 'free';
+
 export interface SpriteConfig {
   rows: number;
   cols: number;
   totalFrames: number; // Useful if the last row isn't full
   fps: number;
   scale: number;
-  transparent: string | null; // Hex color for transparency replacement if needed, usually null
+  scaleFilter: ScaleFilter; // Resampling used when exporting at scale != 1
   autoTransparent: boolean; // New flag for automatic background removal
+  keyColor: string | null; // Background hex color to remove; null = detect from frame borders
+  keyTolerance: number; // Max per-channel distance (0-255) still treated as background
   direction: 'row' | 'column'; // 'row' = Horizontal (Standard), 'column' = Vertical
+  layout: SliceLayout; // 'grid' = rows x cols cells, 'free' = extracted sprite rects in reading order
+  margin: number; // Empty border around the whole grid (px)
+  spacing: number; // Gap between neighbouring cells (px)
+  frameRects?: FrameRect[]; // Explicit sheet rect per frame index, overriding the uniform grid
   frameOffsets: Record<number, { x: number; y: number }>; // Custom X/Y shift per frame index
   excludedFrames: number[]; // Array of frame indices to skip/delete
+  frameDurations: Record<number, number>; // Custom duration (ms) per frame index; others last 1000 / fps
+  sequence?: number[]; // Explicit playback order of frame indices (repeats allowed); grid order when absent
+  guides?: FrameGuides; // Alignment guides in the onion-skin view
+}
+
+export interface FrameGuides {
+  baseline: number | null; // Ground line in px from the frame top; null = hidden
+  center: boolean; // Vertical line through the frame center
 }
 
 export interface ImageDimensions {
@@ -44,9 +69,14 @@ export interface GenerationConfig {
   actionPrompt: string; // Specific action description for 'action' mode
   size: ImageResolution;
   stylePresetId: StylePresetId;
+  profileId: string | null; // Character profile; overrides characterImage and stylePresetId
 }
 
-export type AssetType = 'gif' | 'sheet';
+export type AnimationFormat = 'gif' | 'apng' | 'webp';
+
+export type AtlasFormat = 'texturepacker_hash' | 'texturepacker_array' | 'phaser3' | 'godot' | 'unity';
+
+export type AssetType = AnimationFormat | 'sheet' | 'atlas';
 
 export interface SavedAsset {
   id: string;
@@ -72,6 +102,19 @@ export interface CanvasNodeData {
   height?: number;
 }
 
+export type GridDetectionMethod = 'local' | GenerationProviderId; // Local CV or the provider that analysed the sheet
+
+export interface GridDetectionInfo {
+  method: GridDetectionMethod; // Which detector produced the current grid
+  confidence: number; // Local detector score (0-1), also kept when Gemini took over
+}
+
+export interface GenerationValidation {
+  passed: boolean;
+  issues: string[]; // Human-readable reasons, empty when passed
+  attempts: number; // Generations made before a sheet was kept
+}
+
 export interface NodeGroup {
   id: string;
   imageUrl: string | null;
@@ -79,4 +122,107 @@ export interface NodeGroup {
   dimensions: ImageDimensions;
   config: SpriteConfig;
   createdAt: number;
+  title?: string; // Action prompt or source file name; used for display and file names
+  detection?: GridDetectionInfo;
+  validation?: GenerationValidation; // Only for generated sheets
+  profileId?: string; // Character profile the sheet was generated with
+  revisions?: string[]; // Earlier imageUrls replaced by pixel edits, oldest first
+}
+
+/**
+ * Reusable character identity, so every generation of one character looks the same.
+ */
+export interface CharacterProfile {
+  id: string;
+  name: string;
+  characterImage: string; // Data URL
+  stylePresetId: StylePresetId; // Locked for every generation with this profile
+  palette: string[]; // Hex colors of the reference sheet
+  referenceSheet: string | null; // First accepted sheet; sent as the style reference
+  createdAt: number;
+}
+
+export interface ViewportState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  groupCount: number;
+}
+
+// Everything a project restores; image URLs are rebuilt from stored Blobs on load
+export interface ProjectState {
+  groups: Record<string, NodeGroup>;
+  nodes: CanvasNodeData[];
+  savedAssets: SavedAsset[];
+  viewport: ViewportState;
+  profiles: Record<string, CharacterProfile>;
+}
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+  id: string;
+  label: string; // e.g. the action prompt
+  status: JobStatus;
+  progress: number; // 0 to 100
+  error?: string;
+  attempts: number; // Runs started so far (retries included)
+  createdAt: number;
+  finishedAt?: number;
+}
+
+export type GenerationProviderId = 'gemini' | 'mock';
+
+/**
+ * Backend behind every AI call. All images are data URLs; `signal` cancels the request.
+ */
+export interface SpriteGenerationProvider {
+  id: GenerationProviderId;
+  label: string;
+  requiresApiKey: boolean; // Whether the AI Studio key picker must run first
+  analyzeSpriteSheet: (image: string, signal?: AbortSignal) => Promise<Partial<SpriteConfig>>;
+  generateSpriteVariant: (
+    template: string,
+    character: string,
+    prompt: string,
+    size: ImageResolution,
+    stylePresetId: StylePresetId,
+    referenceSpriteSheet?: string | null,
+    signal?: AbortSignal
+  ) => Promise<string>;
+  generateMemeConceptGrid: (
+    character: string,
+    stylePresetId: StylePresetId,
+    stylePrompt: string, // Additional style details, e.g. a profile palette
+    referenceSpriteSheet?: string | null,
+    signal?: AbortSignal
+  ) => Promise<string>;
+  generateActionSprite: (
+    character: string,
+    actionPrompt: string,
+    stylePrompt: string,
+    size: ImageResolution,
+    stylePresetId: StylePresetId,
+    referenceSpriteSheet?: string | null,
+    layoutReference?: string | null,
+    signal?: AbortSignal
+  ) => Promise<string>;
+  generateInterpolatedSprite: (
+    startImage: string,
+    endImage: string | null,
+    templateReference: string | null,
+    gridConfig: string, // e.g. "3x3"
+    stylePresetId: StylePresetId,
+    size: ImageResolution,
+    stylePrompt: string, // Additional style details, e.g. a profile palette
+    referenceSpriteSheet?: string | null,
+    signal?: AbortSignal
+  ) => Promise<string>;
 }
@@ -0,0 +1,35 @@
+import { SpriteConfig, ImageDimensions, AnimationFormat } from "../types";
+import { generateGif } from "./gifBuilder";
+import { renderAnimationFrames } from "./frameRenderer";
+import { encodeApng } from "./apngEncoder";
+import { encodeAnimatedWebp } from "./webpEncoder";
+
+export const ANIMATION_FORMATS: { id: AnimationFormat; label: string; extension: string }[] = [
+  { id: 'gif', label: 'GIF', extension: 'gif' },
+  { id: 'apng', label: 'APNG', extension: 'png' },
+  { id: 'webp', label: 'WebP', extension: 'webp' },
+];
+
+export const getAnimationExtension = (format: AnimationFormat): string =>
+  ANIMATION_FORMATS.find(f => f.id === format)?.extension || format;
+
+/**
+ * Exports a group as an animation in the requested format.
+ * GIF goes through the palette encoder; APNG and WebP keep full 8-bit alpha.
+ */
+export const generateAnimation = async (
+  image: HTMLImageElement,
+  config: SpriteConfig,
+  dimensions: ImageDimensions,
+  format: AnimationFormat,
+  onProgress: (progress: number) => void
+): Promise<Blob> => {
+  if (format === 'gif') {
+    return generateGif(image, config, dimensions, onProgress);
+  }
+
+  const animation = renderAnimationFrames(image, config, dimensions);
+  return format === 'apng'
+    ? encodeApng(animation, onProgress)
+    : encodeAnimatedWebp(animation, onProgress);
+};
@@ -0,0 +1,106 @@
+import { crc32 } from "./crc32";
+import { RenderedAnimation, frameToBlob } from "./frameRenderer";
+
+/**
+ * Animated PNG writer.
+ * Each frame is compressed by the browser's PNG encoder; its IDAT stream is then
+ * re-wrapped into APNG fcTL/fdAT chunks, so alpha stays full 8-bit.
+ */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const parsePngChunks = (bytes: Uint8Array): PngChunk[] => {
+  for (let i = 0; i < PNG_SIGNATURE.length; i++) {
+    if (bytes[i] !== PNG_SIGNATURE[i]) throw new Error("Invalid PNG data");
+  }
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset < bytes.length) {
+    const length = readUint32(bytes, offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+const uint16 = (value: number) => [(value >>> 8) & 0xff, value & 0xff];
+
+const buildChunk = (type: string, data: ArrayLike<number>): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  chunk.set(uint32(data.length), 0);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  chunk.set(uint32(crc32(chunk, 4, 8 + data.length)), 8 + data.length);
+  return chunk;
+};
+
+export const encodeApng = async (
+  animation: RenderedAnimation,
+  onProgress: (progress: number) => void
+): Promise<Blob> => {
+  const { width, height, frames } = animation;
+  const parts: Uint8Array[] = [new Uint8Array(PNG_SIGNATURE)];
+  let sequence = 0;
+  let header: Uint8Array | null = null;
+
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+    const png = new Uint8Array(await (await frameToBlob(frame, 'image/png')).arrayBuffer());
+    const chunks = parsePngChunks(png);
+
+    const ihdr = chunks.find(c => c.type === 'IHDR');
+    if (!ihdr) throw new Error("PNG frame is missing IHDR");
+
+    if (!header) {
+      header = ihdr.data;
+      parts.push(buildChunk('IHDR', header));
+      // acTL: frame count, loop forever
+      parts.push(buildChunk('acTL', [...uint32(frames.length), ...uint32(0)]));
+    } else if (ihdr.data.some((value, index) => value !== header![index])) {
+      // Bit depth / color type must match across frames
+      throw new Error("Browser produced incompatible PNG frames");
+    }
+
+    // fcTL: full-canvas frame, replace previous pixels (no blending)
+    parts.push(buildChunk('fcTL', [
+      ...uint32(sequence++),
+      ...uint32(width),
+      ...uint32(height),
+      ...uint32(0),
+      ...uint32(0),
+      ...uint16(Math.max(1, Math.round(frame.delay))),
+      ...uint16(1000),
+      1, // dispose_op: APNG_DISPOSE_OP_BACKGROUND
+      0  // blend_op: APNG_BLEND_OP_SOURCE
+    ]));
+
+    for (const chunk of chunks) {
+      if (chunk.type !== 'IDAT') continue;
+      if (i === 0) {
+        // The default image doubles as the first animation frame
+        parts.push(buildChunk('IDAT', chunk.data));
+      } else {
+        const data = new Uint8Array(4 + chunk.data.length);
+        data.set(uint32(sequence++), 0);
+        data.set(chunk.data, 4);
+        parts.push(buildChunk('fdAT', data));
+      }
+    }
+
+    onProgress(Math.round(((i + 1) / frames.length) * 100));
+  }
+
+  parts.push(buildChunk('IEND', []));
+  return new Blob(parts, { type: 'image/apng' });
+};
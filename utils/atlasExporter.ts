@@ -0,0 +1,348 @@
+import { SpriteConfig, ImageDimensions, AtlasFormat } from "../types";
+import { renderAnimationFrames, RenderedAnimation } from "./frameRenderer";
+
+/**
+ * Game-engine atlas export.
+ * Writes a clean packed PNG (no grid lines) plus engine metadata describing every frame.
+ */
+
+export interface AtlasRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface AtlasFrame {
+  name: string;
+  frame: AtlasRect; // Rect inside the packed texture
+  trimmed: boolean;
+  spriteSourceSize: AtlasRect; // Where the packed pixels sit inside the original frame
+  sourceSize: { w: number; h: number }; // Original (untrimmed) frame size
+  duration: number; // Milliseconds
+}
+
+export interface AtlasAnimation {
+  name: string;
+  fps: number;
+  frames: string[]; // Frame names in playback order
+}
+
+export interface AtlasLayout {
+  width: number;
+  height: number;
+  frames: AtlasFrame[];
+  animations: AtlasAnimation[];
+}
+
+// Pixels for each packed frame, keyed by frame name
+export type AtlasPixels = Record<string, ImageData>;
+
+export interface AtlasExport {
+  image: Blob;
+  imageFileName: string;
+  dimensions: { width: number; height: number };
+  metadata: string;
+  metadataFileName: string;
+}
+
+export interface AtlasSerializeOptions {
+  imageFileName: string;
+  pixelArt: boolean; // Point filtering in engines that store it
+}
+
+export const ATLAS_FORMATS: { id: AtlasFormat; label: string }[] = [
+  { id: 'texturepacker_hash', label: 'TexturePacker JSON (Hash)' },
+  { id: 'texturepacker_array', label: 'TexturePacker JSON (Array)' },
+  { id: 'phaser3', label: 'Phaser 3 Atlas' },
+  { id: 'godot', label: 'Godot SpriteFrames (.tres)' },
+  { id: 'unity', label: 'Unity Sprite Meta' },
+];
+
+const APP_NAME = 'SpriteMotionPro';
+
+export const getAtlasMetadataFileName = (format: AtlasFormat, baseName: string): string => {
+  switch (format) {
+    case 'godot': return `${baseName}.tres`;
+    case 'unity': return `${baseName}.png.meta`;
+    default: return `${baseName}.json`;
+  }
+};
+
+export const frameName = (animationName: string, index: number) =>
+  `${animationName}_${String(index).padStart(3, '0')}`;
+
+/**
+ * Lays rendered frames out edge-to-edge in reading order, `columns` per row.
+ */
+export const buildGridLayout = (
+  animation: RenderedAnimation,
+  animationName: string,
+  fps: number,
+  columns: number
+): { layout: AtlasLayout; pixels: AtlasPixels } => {
+  const { width, height, frames } = animation;
+  const cols = Math.max(1, Math.min(columns, frames.length));
+  const rows = Math.ceil(frames.length / cols);
+  const pixels: AtlasPixels = {};
+
+  const atlasFrames: AtlasFrame[] = frames.map((frame, i) => {
+    const name = frameName(animationName, i);
+    pixels[name] = frame.imageData;
+    return {
+      name,
+      frame: { x: (i % cols) * width, y: Math.floor(i / cols) * height, w: width, h: height },
+      trimmed: false,
+      spriteSourceSize: { x: 0, y: 0, w: width, h: height },
+      sourceSize: { w: width, h: height },
+      duration: Math.round(frame.delay)
+    };
+  });
+
+  return {
+    layout: {
+      width: cols * width,
+      height: rows * height,
+      frames: atlasFrames,
+      animations: [{ name: animationName, fps, frames: atlasFrames.map(f => f.name) }]
+    },
+    pixels
+  };
+};
+
+/**
+ * Composites packed frame pixels into the atlas PNG.
+ */
+export const renderAtlasImage = (layout: AtlasLayout, pixels: AtlasPixels): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = layout.width;
+  canvas.height = layout.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error("Could not create canvas context"));
+
+  layout.frames.forEach(frame => {
+    const data = pixels[frame.name];
+    if (!data) return;
+    // Only the packed (possibly trimmed) region of the source pixels is copied
+    ctx.putImageData(
+      data,
+      frame.frame.x - frame.spriteSourceSize.x,
+      frame.frame.y - frame.spriteSourceSize.y,
+      frame.spriteSourceSize.x,
+      frame.spriteSourceSize.y,
+      frame.frame.w,
+      frame.frame.h
+    );
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode atlas")), 'image/png');
+  });
+};
+
+// -- Serializers --
+
+const toTexturePackerFrame = (frame: AtlasFrame) => ({
+  frame: frame.frame,
+  rotated: false,
+  trimmed: frame.trimmed,
+  spriteSourceSize: frame.spriteSourceSize,
+  sourceSize: frame.sourceSize,
+  duration: frame.duration
+});
+
+const serializeTexturePacker = (layout: AtlasLayout, options: AtlasSerializeOptions, asArray: boolean): string => {
+  const frames = asArray
+    ? layout.frames.map(frame => ({ filename: frame.name, ...toTexturePackerFrame(frame) }))
+    : Object.fromEntries(layout.frames.map(frame => [frame.name, toTexturePackerFrame(frame)]));
+
+  return JSON.stringify({
+    frames,
+    animations: Object.fromEntries(layout.animations.map(anim => [anim.name, anim.frames])),
+    meta: {
+      app: APP_NAME,
+      version: '1.0',
+      image: options.imageFileName,
+      format: 'RGBA8888',
+      size: { w: layout.width, h: layout.height },
+      scale: '1',
+      frameRate: Object.fromEntries(layout.animations.map(anim => [anim.name, anim.fps]))
+    }
+  }, null, 2);
+};
+
+/**
+ * Phaser 3 multi-atlas JSON. The `anims` block can be fed to `this.anims.fromJSON()`.
+ */
+const serializePhaser = (layout: AtlasLayout, options: AtlasSerializeOptions): string => {
+  const textureKey = options.imageFileName.replace(/\.[^.]+$/, '');
+  return JSON.stringify({
+    textures: [{
+      image: options.imageFileName,
+      format: 'RGBA8888',
+      size: { w: layout.width, h: layout.height },
+      scale: 1,
+      frames: layout.frames.map(frame => ({ filename: frame.name, ...toTexturePackerFrame(frame) }))
+    }],
+    anims: layout.animations.map(anim => ({
+      key: anim.name,
+      type: 'frame',
+      frameRate: anim.fps,
+      repeat: -1,
+      frames: anim.frames.map(name => ({ key: textureKey, frame: name }))
+    })),
+    meta: { app: APP_NAME, version: '1.0' }
+  }, null, 2);
+};
+
+/**
+ * Godot 4 SpriteFrames resource. Frames are AtlasTextures over the exported PNG;
+ * trimmed frames carry a margin so Godot restores their original footprint.
+ */
+const serializeGodot = (layout: AtlasLayout, options: AtlasSerializeOptions): string => {
+  const framesByName = new Map(layout.frames.map((frame, i) => [frame.name, { frame, id: `AtlasTexture_${i}` }]));
+  const lines: string[] = [];
+
+  lines.push(`[gd_resource type="SpriteFrames" load_steps=${layout.frames.length + 2} format=3]`);
+  lines.push('');
+  lines.push(`[ext_resource type="Texture2D" path="res://${options.imageFileName}" id="1"]`);
+  lines.push('');
+
+  framesByName.forEach(({ frame, id }) => {
+    lines.push(`[sub_resource type="AtlasTexture" id="${id}"]`);
+    lines.push('atlas = ExtResource("1")');
+    lines.push(`region = Rect2(${frame.frame.x}, ${frame.frame.y}, ${frame.frame.w}, ${frame.frame.h})`);
+    if (frame.trimmed) {
+      lines.push(`margin = Rect2(${frame.spriteSourceSize.x}, ${frame.spriteSourceSize.y}, ${frame.sourceSize.w - frame.frame.w}, ${frame.sourceSize.h - frame.frame.h})`);
+    }
+    if (options.pixelArt) lines.push('filter_clip = true');
+    lines.push('');
+  });
+
+  const animations = layout.animations.map(anim => {
+    const baseDuration = 1000 / anim.fps;
+    const frames = anim.frames.map(name => {
+      const entry = framesByName.get(name)!;
+      // Godot durations are relative multipliers of 1 / speed
+      const relative = Math.round((entry.frame.duration / baseDuration) * 1000) / 1000;
+      return `{\n"duration": ${relative.toFixed(3)},\n"texture": SubResource("${entry.id}")\n}`;
+    });
+    return `{\n"frames": [${frames.join(', ')}],\n"loop": true,\n"name": &"${anim.name}",\n"speed": ${anim.fps.toFixed(1)}\n}`;
+  });
+
+  lines.push('[resource]');
+  lines.push(`animations = [${animations.join(', ')}]`);
+  lines.push('');
+  return lines.join('\n');
+};
+
+// Deterministic 32-hex GUID derived from the file name so re-exports keep Unity references
+const unityGuid = (seed: string): string => {
+  let out = '';
+  let h = 2166136261;
+  for (let round = 0; round < 4; round++) {
+    for (let i = 0; i < seed.length; i++) {
+      h ^= seed.charCodeAt(i) + round;
+      h = Math.imul(h, 16777619) >>> 0;
+    }
+    out += h.toString(16).padStart(8, '0');
+  }
+  return out;
+};
+
+/**
+ * Unity TextureImporter .meta with Multiple sprite mode.
+ * Unity rects are bottom-left based; trimmed frames get a custom pivot matching the original frame center.
+ */
+const serializeUnity = (layout: AtlasLayout, options: AtlasSerializeOptions): string => {
+  const lines: string[] = [
+    'fileFormatVersion: 2',
+    `guid: ${unityGuid(options.imageFileName)}`,
+    'TextureImporter:',
+    '  serializedVersion: 12',
+    '  mipmaps:',
+    '    enableMipMap: 0',
+    '  textureSettings:',
+    '    serializedVersion: 2',
+    `    filterMode: ${options.pixelArt ? 0 : 1}`,
+    '    wrapU: 1',
+    '    wrapV: 1',
+    '  alphaIsTransparency: 1',
+    '  spriteMode: 2',
+    '  spritePixelsToUnits: 100',
+    '  spriteMeshType: 0',
+    '  textureType: 8',
+    '  textureShape: 1',
+    '  spriteSheet:',
+    '    serializedVersion: 2',
+    '    sprites:'
+  ];
+
+  layout.frames.forEach(frame => {
+    const { x, y, w, h } = frame.frame;
+    const pivotX = (frame.sourceSize.w / 2 - frame.spriteSourceSize.x) / w;
+    const pivotY = 1 - (frame.sourceSize.h / 2 - frame.spriteSourceSize.y) / h;
+    lines.push(
+      '    - serializedVersion: 2',
+      `      name: ${frame.name}`,
+      '      rect:',
+      '        serializedVersion: 2',
+      `        x: ${x}`,
+      `        y: ${layout.height - y - h}`,
+      `        width: ${w}`,
+      `        height: ${h}`,
+      `      alignment: ${frame.trimmed ? 9 : 0}`,
+      `      pivot: {x: ${pivotX.toFixed(4)}, y: ${pivotY.toFixed(4)}}`,
+      '      border: {x: 0, y: 0, z: 0, w: 0}'
+    );
+  });
+
+  // Unity's importer has no animation data; keep it in userData for import scripts
+  const userData = JSON.stringify({
+    animations: layout.animations.map(anim => ({
+      name: anim.name,
+      fps: anim.fps,
+      frames: anim.frames,
+      durations: anim.frames.map(name => layout.frames.find(f => f.name === name)?.duration ?? 0)
+    }))
+  });
+  lines.push(`  userData: '${userData.replace(/'/g, "''")}'`);
+  lines.push('  assetBundleName: ');
+  lines.push('  assetBundleVariant: ');
+  lines.push('');
+  return lines.join('\n');
+};
+
+export const serializeAtlas = (layout: AtlasLayout, format: AtlasFormat, options: AtlasSerializeOptions): string => {
+  switch (format) {
+    case 'texturepacker_hash': return serializeTexturePacker(layout, options, false);
+    case 'texturepacker_array': return serializeTexturePacker(layout, options, true);
+    case 'phaser3': return serializePhaser(layout, options);
+    case 'godot': return serializeGodot(layout, options);
+    case 'unity': return serializeUnity(layout, options);
+  }
+};
+
+/**
+ * Exports a single group: non-excluded frames in playback order, one row per grid row.
+ */
+export const exportAtlas = async (
+  image: HTMLImageElement,
+  config: SpriteConfig,
+  dimensions: ImageDimensions,
+  baseName: string,
+  format: AtlasFormat
+): Promise<AtlasExport> => {
+  const animation = renderAnimationFrames(image, config, dimensions);
+  const columns = config.direction === 'column' ? config.rows : config.cols;
+  const { layout, pixels } = buildGridLayout(animation, baseName, config.fps, columns);
+
+  const imageFileName = `${baseName}.png`;
+  return {
+    image: await renderAtlasImage(layout, pixels),
+    imageFileName,
+    dimensions: { width: layout.width, height: layout.height },
+    metadata: serializeAtlas(layout, format, { imageFileName, pixelArt: config.scaleFilter === 'nearest' }),
+    metadataFileName: getAtlasMetadataFileName(format, baseName)
+  };
+};
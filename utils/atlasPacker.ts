@@ -0,0 +1,257 @@
+import { SpriteConfig, ImageDimensions, AtlasFormat } from "../types";
+import { RenderedAnimation, renderAnimationFrames } from "./frameRenderer";
+import {
+  AtlasExport, AtlasFrame, AtlasLayout, AtlasPixels, AtlasRect,
+  frameName, renderAtlasImage, serializeAtlas, getAtlasMetadataFileName
+} from "./atlasExporter";
+
+/**
+ * Tight atlas packing: trims transparent borders and bin-packs the frames
+ * (MaxRects, best-short-side-fit) into the smallest power-of-two texture.
+ */
+
+export interface PackInput {
+  animationName: string;
+  fps: number;
+  animation: RenderedAnimation;
+}
+
+export interface PackOptions {
+  trim: boolean;
+  padding: number; // Empty pixels between packed frames
+  maxSize: number; // Largest texture side allowed
+}
+
+export const DEFAULT_PACK_OPTIONS: PackOptions = {
+  trim: true,
+  padding: 2,
+  maxSize: 8192
+};
+
+/**
+ * Opaque bounds of a frame. Fully transparent frames collapse to a single pixel.
+ */
+export const getOpaqueBounds = (imageData: ImageData): AtlasRect => {
+  const { width, height, data } = imageData;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+
+  if (maxX < 0) return { x: 0, y: 0, w: 1, h: 1 };
+  return { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+};
+
+const nextPowerOfTwo = (value: number) => {
+  let p = 1;
+  while (p < value) p *= 2;
+  return p;
+};
+
+class MaxRectsBin {
+  private freeRects: AtlasRect[];
+
+  constructor(width: number, height: number) {
+    this.freeRects = [{ x: 0, y: 0, w: width, h: height }];
+  }
+
+  insert(w: number, h: number): AtlasRect | null {
+    let best: AtlasRect | null = null;
+    let bestShort = Infinity;
+    let bestLong = Infinity;
+
+    for (const free of this.freeRects) {
+      if (free.w < w || free.h < h) continue;
+      const short = Math.min(free.w - w, free.h - h);
+      const long = Math.max(free.w - w, free.h - h);
+      if (short < bestShort || (short === bestShort && long < bestLong)) {
+        best = { x: free.x, y: free.y, w, h };
+        bestShort = short;
+        bestLong = long;
+      }
+    }
+
+    if (!best) return null;
+    this.split(best);
+    return best;
+  }
+
+  private split(used: AtlasRect) {
+    const next: AtlasRect[] = [];
+
+    for (const free of this.freeRects) {
+      const overlaps =
+        used.x < free.x + free.w && used.x + used.w > free.x &&
+        used.y < free.y + free.h && used.y + used.h > free.y;
+
+      if (!overlaps) {
+        next.push(free);
+        continue;
+      }
+
+      if (used.x > free.x) {
+        next.push({ x: free.x, y: free.y, w: used.x - free.x, h: free.h });
+      }
+      if (used.x + used.w < free.x + free.w) {
+        next.push({ x: used.x + used.w, y: free.y, w: free.x + free.w - (used.x + used.w), h: free.h });
+      }
+      if (used.y > free.y) {
+        next.push({ x: free.x, y: free.y, w: free.w, h: used.y - free.y });
+      }
+      if (used.y + used.h < free.y + free.h) {
+        next.push({ x: free.x, y: used.y + used.h, w: free.w, h: free.y + free.h - (used.y + used.h) });
+      }
+    }
+
+    // Drop free rects fully contained in another one
+    this.freeRects = next.filter((a, i) => !next.some((b, j) => {
+      if (i === j) return false;
+      const contained =
+        a.x >= b.x && a.y >= b.y &&
+        a.x + a.w <= b.x + b.w && a.y + a.h <= b.y + b.h;
+      if (!contained) return false;
+      // Of two identical rects, keep the first
+      const identical = a.x === b.x && a.y === b.y && a.w === b.w && a.h === b.h;
+      return !identical || j < i;
+    }));
+  }
+}
+
+/**
+ * Packs sizes into the smallest power-of-two bin (by area) that fits them all.
+ */
+const packIntoPowerOfTwo = (
+  sizes: { w: number; h: number }[],
+  padding: number,
+  maxSize: number
+): { width: number; height: number; positions: AtlasRect[] } => {
+  const order = sizes
+    .map((size, index) => ({ ...size, index }))
+    .sort((a, b) => Math.max(b.w, b.h) - Math.max(a.w, a.h) || b.w * b.h - a.w * a.h);
+
+  const area = sizes.reduce((sum, s) => sum + (s.w + padding) * (s.h + padding), 0);
+  const minW = nextPowerOfTwo(Math.max(...sizes.map(s => s.w)));
+  const minH = nextPowerOfTwo(Math.max(...sizes.map(s => s.h)));
+
+  const candidates: { width: number; height: number }[] = [];
+  for (let w = minW; w <= maxSize; w *= 2) {
+    for (let h = minH; h <= maxSize; h *= 2) {
+      if (w * h >= area) candidates.push({ width: w, height: h });
+    }
+  }
+  // Smallest area first; prefer square-ish textures on ties
+  candidates.sort((a, b) =>
+    a.width * a.height - b.width * b.height ||
+    Math.abs(a.width - a.height) - Math.abs(b.width - b.height)
+  );
+
+  for (const { width, height } of candidates) {
+    // The bin is padded too so the last row/column doesn't need trailing padding
+    const bin = new MaxRectsBin(width + padding, height + padding);
+    const positions: AtlasRect[] = new Array(sizes.length);
+    let fits = true;
+
+    for (const item of order) {
+      const placed = bin.insert(item.w + padding, item.h + padding);
+      if (!placed) {
+        fits = false;
+        break;
+      }
+      positions[item.index] = { x: placed.x, y: placed.y, w: item.w, h: item.h };
+    }
+
+    if (fits) return { width, height, positions };
+  }
+
+  throw new Error(`Frames do not fit in a ${maxSize}x${maxSize} atlas`);
+};
+
+/**
+ * Builds one tightly packed layout for any number of animations (e.g. all actions of a character).
+ * Trim offsets and source sizes are recorded so engines can restore each frame's original placement.
+ */
+export const buildPackedLayout = (
+  inputs: PackInput[],
+  options: PackOptions = DEFAULT_PACK_OPTIONS
+): { layout: AtlasLayout; pixels: AtlasPixels } => {
+  const pixels: AtlasPixels = {};
+  const pending: { name: string; imageData: ImageData; bounds: AtlasRect; duration: number }[] = [];
+  const animations = inputs.map(input => {
+    const names = input.animation.frames.map(frame => {
+      const name = frameName(input.animationName, frame.index);
+      if (!pixels[name]) {
+        pixels[name] = frame.imageData;
+        const bounds = options.trim
+          ? getOpaqueBounds(frame.imageData)
+          : { x: 0, y: 0, w: frame.imageData.width, h: frame.imageData.height };
+        pending.push({ name, imageData: frame.imageData, bounds, duration: Math.round(frame.delay) });
+      }
+      return name;
+    });
+    return { name: input.animationName, fps: input.fps, frames: names };
+  });
+
+  if (pending.length === 0) {
+    throw new Error("No valid frames to pack");
+  }
+
+  const { width, height, positions } = packIntoPowerOfTwo(
+    pending.map(p => ({ w: p.bounds.w, h: p.bounds.h })),
+    options.padding,
+    options.maxSize
+  );
+
+  const frames: AtlasFrame[] = pending.map((p, i) => ({
+    name: p.name,
+    frame: positions[i],
+    trimmed: p.bounds.w !== p.imageData.width || p.bounds.h !== p.imageData.height,
+    spriteSourceSize: p.bounds,
+    sourceSize: { w: p.imageData.width, h: p.imageData.height },
+    duration: p.duration
+  }));
+
+  return { layout: { width, height, frames, animations }, pixels };
+};
+
+export interface PackedAtlasSource {
+  name: string; // Animation name
+  image: HTMLImageElement;
+  config: SpriteConfig;
+  dimensions: ImageDimensions;
+}
+
+/**
+ * Exports one or more groups into a single trimmed, tightly packed atlas.
+ */
+export const exportPackedAtlas = async (
+  sources: PackedAtlasSource[],
+  baseName: string,
+  format: AtlasFormat,
+  options: PackOptions = DEFAULT_PACK_OPTIONS
+): Promise<AtlasExport> => {
+  const inputs: PackInput[] = sources.map(source => ({
+    animationName: source.name,
+    fps: source.config.fps,
+    animation: renderAnimationFrames(source.image, source.config, source.dimensions)
+  }));
+  const { layout, pixels } = buildPackedLayout(inputs, options);
+
+  const imageFileName = `${baseName}.png`;
+  return {
+    image: await renderAtlasImage(layout, pixels),
+    imageFileName,
+    dimensions: { width: layout.width, height: layout.height },
+    metadata: serializeAtlas(layout, format, {
+      imageFileName,
+      pixelArt: sources.every(source => source.config.scaleFilter === 'nearest')
+    }),
+    metadataFileName: getAtlasMetadataFileName(format, baseName)
+  };
+};
@@ -0,0 +1,219 @@
+import { SpriteConfig } from "../types";
+
+/**
+ * Background matting for generated sprite frames.
+ * The background is flood-filled from the frame borders, so colors matching the
+ * key inside the character (white highlights, eyes) are kept. Edge pixels between
+ * the background and the sprite get soft alpha and have the key color removed.
+ */
+
+export type RGB = [number, number, number];
+
+export interface BackgroundRemovalOptions {
+  keyColor: RGB | null; // null = detect from the frame borders
+  tolerance: number; // Max per-channel distance (0-255) still treated as background
+}
+
+export const DEFAULT_KEY_TOLERANCE = 20;
+
+// Pixels this transparent already count as background
+const ALPHA_THRESHOLD = 10;
+
+export const parseHexColor = (hex: string): RGB | null => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+export const toHexColor = ([r, g, b]: RGB): string =>
+  '#' + [r, g, b].map(c => c.toString(16).padStart(2, '0')).join('');
+
+export const getBackgroundRemovalOptions = (config: SpriteConfig): BackgroundRemovalOptions => ({
+  keyColor: config.keyColor ? parseHexColor(config.keyColor) : null,
+  tolerance: config.keyTolerance ?? DEFAULT_KEY_TOLERANCE
+});
+
+const colorDistance = (data: Uint8ClampedArray, i: number, key: RGB) =>
+  Math.max(Math.abs(data[i] - key[0]), Math.abs(data[i + 1] - key[1]), Math.abs(data[i + 2] - key[2]));
+
+/**
+ * Most common opaque border color (5-bit buckets, averaged inside the winning bucket).
+ */
+export const detectKeyColor = (imageData: ImageData): RGB | null => {
+  const { width, height, data } = imageData;
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+
+  const sample = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    if (data[i + 3] < ALPHA_THRESHOLD) return;
+    const key = ((data[i] >> 3) << 10) | ((data[i + 1] >> 3) << 5) | (data[i + 2] >> 3);
+    const bucket = buckets.get(key) || { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += data[i];
+    bucket.g += data[i + 1];
+    bucket.b += data[i + 2];
+    buckets.set(key, bucket);
+  };
+
+  for (let x = 0; x < width; x++) {
+    sample(x, 0);
+    sample(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    sample(0, y);
+    sample(width - 1, y);
+  }
+
+  let best: { count: number; r: number; g: number; b: number } | null = null;
+  for (const bucket of buckets.values()) {
+    if (!best || bucket.count > best.count) best = bucket;
+  }
+  if (!best) return null;
+  const { count, r, g, b } = best;
+  return [Math.round(r / count), Math.round(g / count), Math.round(b / count)];
+};
+
+/**
+ * Per-pixel foreground mask (1 = foreground): neither transparent nor close to the
+ * border color. Used for layout analysis, not for the final cutout.
+ */
+export const getForegroundMask = (imageData: ImageData, tolerance = 24): Uint8Array => {
+  const { width, height, data } = imageData;
+  const key = detectKeyColor(imageData);
+  const mask = new Uint8Array(width * height);
+
+  for (let p = 0; p < mask.length; p++) {
+    const i = p * 4;
+    if (data[i + 3] < ALPHA_THRESHOLD) continue;
+    if (key && colorDistance(data, i, key) <= tolerance) continue;
+    mask[p] = 1;
+  }
+  return mask;
+};
+
+/**
+ * Removes the background in place. Returns the key color that was used (null if none was found).
+ */
+export const removeBackground = (imageData: ImageData, options: BackgroundRemovalOptions): RGB | null => {
+  const { width, height, data } = imageData;
+  const key = options.keyColor || detectKeyColor(imageData);
+  if (!key) return null;
+
+  const tolerance = Math.max(0, options.tolerance);
+  const pixelCount = width * height;
+  // 0 = sprite, 1 = background, 2 = edge band
+  const mask = new Uint8Array(pixelCount);
+
+  const isBackground = (p: number) => {
+    const i = p * 4;
+    return data[i + 3] < ALPHA_THRESHOLD || colorDistance(data, i, key) <= tolerance;
+  };
+
+  // --- Flood fill from every border pixel ---
+  const stack: number[] = [];
+  const seed = (p: number) => {
+    if (mask[p] === 0 && isBackground(p)) {
+      mask[p] = 1;
+      stack.push(p);
+    }
+  };
+  for (let x = 0; x < width; x++) {
+    seed(x);
+    seed((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    seed(y * width);
+    seed(y * width + width - 1);
+  }
+
+  while (stack.length > 0) {
+    const p = stack.pop()!;
+    const x = p % width;
+    if (x > 0) seed(p - 1);
+    if (x < width - 1) seed(p + 1);
+    if (p >= width) seed(p - width);
+    if (p < pixelCount - width) seed(p + width);
+  }
+
+  // --- Edge band: sprite pixels touching the background (8-neighbourhood) ---
+  const band: number[] = [];
+  for (let p = 0; p < pixelCount; p++) {
+    if (mask[p] !== 0) continue;
+    const x = p % width;
+    const y = (p - x) / width;
+    let touches = false;
+    for (let dy = -1; dy <= 1 && !touches; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx, ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        if (mask[ny * width + nx] === 1) {
+          touches = true;
+          break;
+        }
+      }
+    }
+    if (touches) band.push(p);
+  }
+  band.forEach(p => { mask[p] = 2; });
+
+  // --- Soft alpha + color decontamination for the edge band ---
+  // Observed = alpha * foreground + (1 - alpha) * key. The foreground estimate is the
+  // neighbouring solid sprite pixel that differs most from the key.
+  const updates: { p: number; alpha: number; rgb: RGB }[] = [];
+  for (const p of band) {
+    const i = p * 4;
+    const x = p % width;
+    const y = (p - x) / width;
+
+    let fg: RGB | null = null;
+    let fgDistance = 0;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx, ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const n = ny * width + nx;
+        if (mask[n] !== 0) continue;
+        const distance = colorDistance(data, n * 4, key);
+        if (distance > fgDistance) {
+          fgDistance = distance;
+          fg = [data[n * 4], data[n * 4 + 1], data[n * 4 + 2]];
+        }
+      }
+    }
+
+    // Project the pixel onto the key -> foreground line
+    let alpha: number;
+    const observed: RGB = [data[i] - key[0], data[i + 1] - key[1], data[i + 2] - key[2]];
+    if (fg) {
+      const direction: RGB = [fg[0] - key[0], fg[1] - key[1], fg[2] - key[2]];
+      const lengthSq = direction[0] ** 2 + direction[1] ** 2 + direction[2] ** 2;
+      alpha = lengthSq > 0
+        ? (observed[0] * direction[0] + observed[1] * direction[1] + observed[2] * direction[2]) / lengthSq
+        : 1;
+    } else {
+      // Thin feature with no solid neighbour: only colors close to the key fade out
+      alpha = (colorDistance(data, i, key) - tolerance) / (2 * tolerance + 1);
+    }
+    alpha = Math.min(1, Math.max(0, alpha));
+
+    if (alpha >= 0.98) continue;
+    const rgb: RGB = alpha > 0
+      ? [0, 1, 2].map(c => Math.round(key[c] + observed[c] / alpha)) as RGB
+      : [data[i], data[i + 1], data[i + 2]];
+    updates.push({ p, alpha, rgb });
+  }
+
+  for (let p = 0; p < pixelCount; p++) {
+    if (mask[p] === 1) data[p * 4 + 3] = 0;
+  }
+  for (const { p, alpha, rgb } of updates) {
+    const i = p * 4;
+    data[i] = rgb[0];
+    data[i + 1] = rgb[1];
+    data[i + 2] = rgb[2];
+    data[i + 3] = Math.round(data[i + 3] * alpha);
+  }
+
+  return key;
+};
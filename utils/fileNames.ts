@@ -0,0 +1,64 @@
+import { NodeGroup } from "../types";
+
+const MAX_STEM_LENGTH = 48;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/apng': 'png',
+  'image/webp': 'webp',
+  'application/json': 'json',
+  'text/plain': 'txt'
+};
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  json: 'application/json',
+  txt: 'text/plain'
+};
+
+export const getExtensionForMimeType = (mimeType: string): string => EXTENSIONS[mimeType] || 'bin';
+
+export const getMimeTypeForFileName = (fileName: string): string =>
+  MIME_TYPES[(fileName.split('.').pop() || '').toLowerCase()] || 'application/octet-stream';
+
+/**
+ * Display name of a group: its title (action prompt, file name) or a short id.
+ */
+export const getGroupName = (group: NodeGroup): string =>
+  group.title?.trim() || `sprite-${group.id.substring(0, 4)}`;
+
+/**
+ * File-system safe version of a name. Non-ASCII text (e.g. Chinese prompts) is kept.
+ */
+export const toFileStem = (name: string): string => {
+  const stem = name
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '')
+    .substring(0, MAX_STEM_LENGTH);
+  return stem || 'untitled';
+};
+
+export const getGroupFileStem = (group: NodeGroup): string => toFileStem(getGroupName(group));
+
+/**
+ * Distinct file stems per group id; repeated names get a numeric suffix.
+ */
+export const getUniqueGroupFileStems = (groups: NodeGroup[]): Record<string, string> => {
+  const used = new Set<string>();
+  const stems: Record<string, string> = {};
+  groups.forEach(group => {
+    const base = getGroupFileStem(group);
+    let stem = base;
+    for (let n = 2; used.has(stem.toLowerCase()); n++) stem = `${base}-${n}`;
+    used.add(stem.toLowerCase());
+    stems[group.id] = stem;
+  });
+  return stems;
+};
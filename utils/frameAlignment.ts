@@ -0,0 +1,160 @@
+import { SpriteConfig, ImageDimensions } from "../types";
+import { getForegroundMask } from "./backgroundRemoval";
+import { getFrameRect, getFrameSlice } from "./slicing";
+
+/**
+ * Automatic frame stabilization.
+ * Every frame gets an offset that moves its anchor onto the reference frame's anchor,
+ * so characters stop drifting inside their cells.
+ */
+
+export type AlignmentMode = 'feet' | 'mass' | 'correlation';
+
+export const ALIGNMENT_MODES: { id: AlignmentMode; label: string; description: string }[] = [
+  { id: 'feet', label: 'Feet', description: 'Bounding-box bottom center' },
+  { id: 'mass', label: 'Mass', description: 'Center of mass' },
+  { id: 'correlation', label: 'Match', description: 'Best overlap with the reference frame' }
+];
+
+type Offsets = Record<number, { x: number; y: number }>;
+
+interface FrameMask {
+  mask: Uint8Array;
+  width: number;
+  height: number;
+  originX: number; // Mask position inside the output frame
+  originY: number;
+}
+
+// Refinement window (px) around the center-of-mass guess in correlation mode
+const CORRELATION_RADIUS = 4;
+
+const readFrameMask = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, config: SpriteConfig, dimensions: ImageDimensions, index: number): FrameMask => {
+  const rect = getFrameRect(config, dimensions, index);
+  const width = Math.max(1, Math.round(rect.w));
+  const height = Math.max(1, Math.round(rect.h));
+  ctx.canvas.width = width;
+  ctx.canvas.height = height;
+  ctx.clearRect(0, 0, width, height);
+  ctx.drawImage(image, rect.x, rect.y, rect.w, rect.h, 0, 0, width, height);
+
+  // Placement of the untouched frame inside the (possibly padded) output frame
+  const placement = getFrameSlice({ ...config, frameOffsets: {} }, dimensions, index);
+  return {
+    mask: getForegroundMask(ctx.getImageData(0, 0, width, height)),
+    width,
+    height,
+    originX: placement.dx,
+    originY: placement.dy
+  };
+};
+
+const feetAnchor = ({ mask, width, height }: FrameMask): { x: number; y: number } | null => {
+  let minX = width, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: (minX + maxX + 1) / 2, y: maxY + 1 };
+};
+
+const massAnchor = ({ mask, width, height }: FrameMask): { x: number; y: number } | null => {
+  let sumX = 0, sumY = 0, count = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      sumX += x;
+      sumY += y;
+      count++;
+    }
+  }
+  if (count === 0) return null;
+  return { x: sumX / count, y: sumY / count };
+};
+
+/**
+ * Overlapping foreground pixels when `frame` is moved by (dx, dy) in output space.
+ */
+const overlapScore = (reference: FrameMask, frame: FrameMask, dx: number, dy: number): number => {
+  let score = 0;
+  for (let y = 0; y < frame.height; y++) {
+    const ry = Math.round(y + frame.originY + dy - reference.originY);
+    if (ry < 0 || ry >= reference.height) continue;
+    for (let x = 0; x < frame.width; x++) {
+      if (!frame.mask[y * frame.width + x]) continue;
+      const rx = Math.round(x + frame.originX + dx - reference.originX);
+      if (rx < 0 || rx >= reference.width) continue;
+      score += reference.mask[ry * reference.width + rx];
+    }
+  }
+  return score;
+};
+
+/**
+ * Computes offsets for every frame. Frames without foreground keep their current offset.
+ */
+export const computeAlignment = (
+  image: HTMLImageElement,
+  config: SpriteConfig,
+  dimensions: ImageDimensions,
+  mode: AlignmentMode,
+  referenceIndex: number
+): Offsets => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create canvas context");
+
+  const masks: FrameMask[] = [];
+  for (let i = 0; i < config.totalFrames; i++) {
+    masks.push(readFrameMask(ctx, image, config, dimensions, i));
+  }
+
+  const anchorOf = mode === 'feet' ? feetAnchor : massAnchor;
+  const toOutput = (frame: FrameMask, anchor: { x: number; y: number }) =>
+    ({ x: anchor.x + frame.originX, y: anchor.y + frame.originY });
+
+  const reference = masks[referenceIndex];
+  const referenceLocal = reference && anchorOf(reference);
+  if (!referenceLocal) throw new Error("Reference frame is empty");
+  const target = toOutput(reference, referenceLocal);
+
+  const offsets: Offsets = {};
+  masks.forEach((frame, index) => {
+    const local = anchorOf(frame);
+    if (!local) {
+      if (config.frameOffsets?.[index]) offsets[index] = config.frameOffsets[index];
+      return;
+    }
+    const anchor = toOutput(frame, local);
+    let dx = Math.round(target.x - anchor.x);
+    let dy = Math.round(target.y - anchor.y);
+
+    if (mode === 'correlation' && index !== referenceIndex) {
+      // Refine the center-of-mass guess by maximizing overlap with the reference
+      let bestScore = -1;
+      let best = { x: dx, y: dy };
+      for (let oy = -CORRELATION_RADIUS; oy <= CORRELATION_RADIUS; oy++) {
+        for (let ox = -CORRELATION_RADIUS; ox <= CORRELATION_RADIUS; ox++) {
+          const score = overlapScore(reference, frame, dx + ox, dy + oy);
+          // Ties go to the smaller correction
+          const isCloser = Math.abs(ox) + Math.abs(oy) < Math.abs(best.x - dx) + Math.abs(best.y - dy);
+          if (score > bestScore || (score === bestScore && isCloser)) {
+            bestScore = score;
+            best = { x: dx + ox, y: dy + oy };
+          }
+        }
+      }
+      dx = best.x;
+      dy = best.y;
+    }
+
+    if (dx !== 0 || dy !== 0) offsets[index] = { x: dx, y: dy };
+  });
+
+  return offsets;
+};
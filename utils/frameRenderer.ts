@@ -0,0 +1,149 @@
+import { SpriteConfig, ImageDimensions } from "../types";
+import { removeBackground, getBackgroundRemovalOptions } from "./backgroundRemoval";
+import { getFrameSize, getFrameSlice } from "./slicing";
+
+export interface RenderedFrame {
+  index: number; // Source frame index in the sheet
+  imageData: ImageData; // Full 8-bit RGBA pixels at export scale
+  delay: number; // Frame duration in milliseconds
+}
+
+export interface RenderedAnimation {
+  width: number;
+  height: number;
+  frames: RenderedFrame[];
+}
+
+/**
+ * Duration of one frame in milliseconds: its custom hold, or the base 1000 / fps.
+ */
+export const getFrameDuration = (config: SpriteConfig, index: number): number =>
+  config.frameDurations?.[index] ?? 1000 / config.fps;
+
+/**
+ * Frame indices in playback order. An explicit `sequence` wins over grid order;
+ * excluded or out-of-range entries are skipped either way.
+ */
+export const getPlaybackFrames = (config: SpriteConfig): number[] => {
+  const isPlayable = (i: number) => i >= 0 && i < config.totalFrames && !config.excludedFrames?.includes(i);
+  if (config.sequence && config.sequence.length > 0) {
+    return config.sequence.filter(isPlayable);
+  }
+  return Array.from({ length: config.totalFrames }, (_, i) => i).filter(isPlayable);
+};
+
+/**
+ * Cuts the sheet into export-ready frames.
+ * Shared by every animation encoder so GIF, APNG and WebP stay frame-identical
+ * (direction, offsets, exclusions, scale and background removal).
+ */
+export const renderAnimationFrames = (
+  image: HTMLImageElement,
+  config: SpriteConfig,
+  dimensions: ImageDimensions
+): RenderedAnimation => {
+  const { width: frameWidth, height: frameHeight } = getFrameSize(config, dimensions);
+
+  // Output size honours the export scale (integer or fractional)
+  const scale = config.scale > 0 ? config.scale : 1;
+  const outputWidth = Math.max(1, Math.round(frameWidth * scale));
+  const outputHeight = Math.max(1, Math.round(frameHeight * scale));
+
+  // Create an offscreen canvas for frame processing
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+  if (!ctx) {
+    throw new Error("Could not create canvas context");
+  }
+
+  canvas.width = outputWidth;
+  canvas.height = outputHeight;
+
+  const framesToRender = getPlaybackFrames(config);
+
+  if (framesToRender.length === 0) {
+      throw new Error("No valid frames to render");
+  }
+
+  const backgroundOptions = getBackgroundRemovalOptions(config);
+
+  // Repeated sequence entries reuse the already keyed pixels
+  const renderedByIndex = new Map<number, ImageData>();
+
+  const frames = framesToRender.map(index => {
+    const cached = renderedByIndex.get(index);
+    if (cached) {
+      return { index, imageData: cached, delay: getFrameDuration(config, index) };
+    }
+
+    // Clear canvas. Gaps left by shifted frames stay transparent and are
+    // treated as background by the flood fill.
+    ctx.clearRect(0, 0, outputWidth, outputHeight);
+
+    // Offsets are stored in source pixels, so drawing the shifted source rect
+    // into the scaled destination scales the offset along with the frame.
+    const slice = getFrameSlice(config, dimensions, index);
+    const scaleX = outputWidth / frameWidth;
+    const scaleY = outputHeight / frameHeight;
+
+    // Pixel art keeps hard edges (nearest-neighbor), painted styles get filtered scaling
+    ctx.imageSmoothingEnabled = config.scaleFilter === 'smooth';
+    ctx.imageSmoothingQuality = 'high';
+
+    ctx.drawImage(
+      image,
+      slice.sx, slice.sy,
+      slice.sw, slice.sh,
+      slice.dx * scaleX, slice.dy * scaleY,
+      slice.sw * scaleX, slice.sh * scaleY
+    );
+
+    // Keying runs on the scaled pixels so filtered edges are keyed as well
+    const imageData = ctx.getImageData(0, 0, outputWidth, outputHeight);
+    if (config.autoTransparent) {
+      removeBackground(imageData, backgroundOptions);
+    }
+    renderedByIndex.set(index, imageData);
+
+    return {
+      index,
+      imageData,
+      delay: getFrameDuration(config, index)
+    };
+  });
+
+  return { width: outputWidth, height: outputHeight, frames };
+};
+
+/**
+ * Full-resolution pixels of a loaded image, for analysis passes.
+ */
+export const readImageData = (image: HTMLImageElement): ImageData => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create canvas context");
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Encodes a rendered frame with the browser's still-image encoder.
+ */
+export const frameToBlob = (frame: RenderedFrame, mimeType: string, quality?: number): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = frame.imageData.width;
+  canvas.height = frame.imageData.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error("Could not create canvas context"));
+  ctx.putImageData(frame.imageData, 0, 0);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error(`Could not encode frame as ${mimeType}`));
+    }, mimeType, quality);
+  });
+};
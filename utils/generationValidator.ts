@@ -0,0 +1,169 @@
+import { GenerationValidation } from "../types";
+import { getForegroundMask } from "./backgroundRemoval";
+import { detectGrid, LOW_CONFIDENCE_THRESHOLD } from "./gridDetection";
+import { readImageData } from "./frameRenderer";
+
+/**
+ * Local checks for generated sheets.
+ * The model is asked for an exact grid on pure white, but regularly returns other grids,
+ * fake transparency checkerboards, empty cells or a character that changes size.
+ */
+
+export interface ExpectedGrid {
+  rows: number;
+  cols: number;
+}
+
+export interface SheetValidationResult {
+  passed: boolean;
+  issues: string[];
+}
+
+const WHITE_MIN = 235; // Every channel at or above counts as white
+const MIN_WHITE_BORDER = 0.9; // Share of border pixels that must be white
+const FILLED_CELL = 0.005; // Min foreground fraction for a cell to hold a frame
+const SIZE_TOLERANCE = 0.35; // Allowed deviation of a character's size from the median
+
+const isWhite = (data: Uint8ClampedArray, i: number) =>
+  data[i + 3] > 0 && data[i] >= WHITE_MIN && data[i + 1] >= WHITE_MIN && data[i + 2] >= WHITE_MIN;
+
+// Light neutral gray, the second color of the usual "transparent" checkerboard
+const isCheckerGray = (data: Uint8ClampedArray, i: number) => {
+  const r = data[i], g = data[i + 1], b = data[i + 2];
+  return r >= 150 && r < WHITE_MIN && Math.abs(r - g) < 8 && Math.abs(r - b) < 8;
+};
+
+const checkBackground = (imageData: ImageData): string | null => {
+  const { width, height, data } = imageData;
+  let white = 0, gray = 0, total = 0;
+  const sample = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    total++;
+    if (isWhite(data, i)) white++;
+    else if (isCheckerGray(data, i)) gray++;
+  };
+  for (let x = 0; x < width; x++) {
+    sample(x, 0);
+    sample(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    sample(0, y);
+    sample(width - 1, y);
+  }
+
+  if (white / total >= MIN_WHITE_BORDER) return null;
+  if ((white + gray) / total >= MIN_WHITE_BORDER && gray / total > 0.1) return "Checkerboard background instead of solid white";
+  return "Background is not solid white";
+};
+
+interface CellStats {
+  filled: number; // Foreground fraction
+  size: number; // Larger side of the foreground bounding box (px)
+}
+
+const measureCells = (mask: Uint8Array, width: number, height: number, { rows, cols }: ExpectedGrid): CellStats[] => {
+  const cellW = width / cols;
+  const cellH = height / rows;
+  const stats: CellStats[] = [];
+
+  for (let index = 0; index < rows * cols; index++) {
+    const x0 = Math.floor((index % cols) * cellW), x1 = Math.floor((index % cols + 1) * cellW);
+    const y0 = Math.floor(Math.floor(index / cols) * cellH), y1 = Math.floor((Math.floor(index / cols) + 1) * cellH);
+    let filled = 0;
+    let minX = Infinity, minY = Infinity, maxX = -1, maxY = -1;
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        if (!mask[y * width + x]) continue;
+        filled++;
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+    stats.push({
+      filled: filled / Math.max(1, (x1 - x0) * (y1 - y0)),
+      size: maxX < 0 ? 0 : Math.max(maxX - minX, maxY - minY) + 1
+    });
+  }
+  return stats;
+};
+
+const formatFrames = (indices: number[]) => indices.map(i => i + 1).join(', ');
+
+export const validateSheet = (imageData: ImageData, expected: ExpectedGrid): SheetValidationResult => {
+  const { width, height } = imageData;
+  const issues: string[] = [];
+
+  const background = checkBackground(imageData);
+  if (background) issues.push(background);
+
+  // Only a confident detection can contradict the request; touching frames give low scores.
+  // Detection needs a clean background, so a bad one is reported on its own
+  const detected = background ? null : detectGrid(imageData);
+  if (detected && detected.confidence >= LOW_CONFIDENCE_THRESHOLD && (detected.rows !== expected.rows || detected.cols !== expected.cols)) {
+    issues.push(`Expected a ${expected.rows}x${expected.cols} grid, got ${detected.rows}x${detected.cols}`);
+  }
+
+  const cells = measureCells(getForegroundMask(imageData), width, height, expected);
+  const empty = cells.flatMap((cell, i) => cell.filled < FILLED_CELL ? [i] : []);
+  if (empty.length > 0) issues.push(`Empty frames: ${formatFrames(empty)}`);
+
+  const sizes = cells.filter(cell => cell.filled >= FILLED_CELL).map(cell => cell.size).sort((a, b) => a - b);
+  if (sizes.length > 1) {
+    const median = sizes[Math.floor(sizes.length / 2)];
+    const uneven = cells.flatMap((cell, i) =>
+      cell.filled >= FILLED_CELL && Math.abs(cell.size - median) > median * SIZE_TOLERANCE ? [i] : []
+    );
+    if (uneven.length > 0) issues.push(`Character size varies in frames: ${formatFrames(uneven)}`);
+  }
+
+  return { passed: issues.length === 0, issues };
+};
+
+export const validateSheetImage = async (imageUrl: string, expected: ExpectedGrid): Promise<SheetValidationResult> => {
+  const img = new Image();
+  img.src = imageUrl;
+  await img.decode();
+  return validateSheet(readImageData(img), expected);
+};
+
+/**
+ * Calls `generate` until the result passes validation or `maxAttempts` is used up.
+ * A sheet that never passes is still returned (the one with the fewest issues),
+ * with its issues in the validation record so they can be shown on the group.
+ * Errors are only thrown when no sheet has been produced yet, or when aborted.
+ */
+export const generateValidatedSheet = async (
+  generate: () => Promise<string>,
+  expected: ExpectedGrid,
+  maxAttempts: number,
+  signal?: AbortSignal,
+  onAttempt?: (attempt: number) => void
+): Promise<{ imageUrl: string; validation: GenerationValidation }> => {
+  let best: { imageUrl: string; result: SheetValidationResult } | null = null;
+  let attempts = 0;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    attempts = attempt;
+    onAttempt?.(attempt);
+    let imageUrl: string;
+    let result: SheetValidationResult;
+    try {
+      imageUrl = await generate();
+      result = await validateSheetImage(imageUrl, expected);
+    } catch (error) {
+      // A failed retry must not lose the sheet an earlier attempt already produced
+      if (!best || signal?.aborted) throw error;
+      console.warn(`Regeneration failed (attempt ${attempt}/${maxAttempts}), keeping the best sheet so far`, error);
+      break;
+    }
+    if (!best || result.issues.length < best.result.issues.length) best = { imageUrl, result };
+    if (result.passed) break;
+    if (signal?.aborted) break;
+    console.warn(`Generated sheet failed validation (attempt ${attempt}/${maxAttempts})`, result.issues);
+  }
+
+  const { imageUrl, result } = best!;
+  return { imageUrl, validation: { passed: result.passed, issues: result.issues, attempts } };
+};
@@ -0,0 +1,428 @@
+/**
+ * Self-contained GIF89a encoder (palette quantization + LZW).
+ * Bundled with the app so exports never depend on gif.js or a CDN worker.
+ */
+
+export interface GifFrame {
+  data: Uint8ClampedArray; // RGBA pixels, width * height * 4
+  delay: number; // Frame duration in milliseconds
+}
+
+export interface GifEncoderOptions {
+  width: number;
+  height: number;
+  loop: number; // 0 = loop forever
+  transparent: boolean; // Pixels with alpha < 128 map to a dedicated transparent index
+  background: [number, number, number]; // Matte for translucent pixels when transparency is off
+}
+
+// Messages exchanged with gifEncoder.worker.ts
+export interface GifWorkerRequest {
+  options: GifEncoderOptions;
+  frames: { buffer: ArrayBuffer; delay: number }[];
+}
+
+export type GifWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; buffer: ArrayBuffer }
+  | { type: 'error'; message: string };
+
+const ALPHA_THRESHOLD = 128;
+const MAX_LZW_CODE = 4096;
+
+/**
+ * Growable byte buffer used to assemble the GIF stream.
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  private length = 0;
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  writeByte(value: number) {
+    this.ensure(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  writeShort(value: number) {
+    this.writeByte(value & 0xff);
+    this.writeByte((value >> 8) & 0xff);
+  }
+
+  writeBytes(values: ArrayLike<number>) {
+    this.ensure(values.length);
+    for (let i = 0; i < values.length; i++) {
+      this.buffer[this.length++] = values[i] & 0xff;
+    }
+  }
+
+  writeString(value: string) {
+    for (let i = 0; i < value.length; i++) this.writeByte(value.charCodeAt(i));
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+// -- Palette Quantization --
+
+interface QuantizedFrame {
+  palette: number[]; // Packed 0xRRGGBB colors
+  indices: Uint8Array;
+  transparentIndex: number; // -1 when the frame has no transparent index
+}
+
+// 5 bits per channel histogram key
+export const toKey15 = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+/**
+ * Median cut over a 15-bit color histogram (also used for palette extraction).
+ * Returns packed 0xRRGGBB colors averaged from the full-precision sums of each box.
+ */
+export const medianCut = (
+  counts: Uint32Array,
+  sums: Float64Array,
+  maxColors: number
+): number[] => {
+  const channelOf = (key: number, channel: number) =>
+    channel === 0 ? (key >> 10) & 31 : channel === 1 ? (key >> 5) & 31 : key & 31;
+
+  const initial: number[] = [];
+  for (let key = 0; key < counts.length; key++) {
+    if (counts[key] > 0) initial.push(key);
+  }
+
+  let boxes: number[][] = [initial];
+
+  while (boxes.length < maxColors) {
+    // Split the box with the widest spread weighted by its population
+    let bestIndex = -1;
+    let bestScore = 0;
+    let bestChannel = 0;
+
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      let population = 0;
+      for (const key of box) population += counts[key];
+      for (let channel = 0; channel < 3; channel++) {
+        let min = 31;
+        let max = 0;
+        for (const key of box) {
+          const v = channelOf(key, channel);
+          if (v < min) min = v;
+          if (v > max) max = v;
+        }
+        const score = (max - min) * population;
+        if (score > bestScore) {
+          bestScore = score;
+          bestIndex = index;
+          bestChannel = channel;
+        }
+      }
+    });
+
+    if (bestIndex === -1) break;
+
+    const box = boxes[bestIndex].slice().sort((a, b) => channelOf(a, bestChannel) - channelOf(b, bestChannel));
+    let total = 0;
+    for (const key of box) total += counts[key];
+
+    let running = 0;
+    let splitAt = box.length - 1;
+    for (let i = 0; i < box.length - 1; i++) {
+      running += counts[box[i]];
+      if (running >= total / 2) {
+        splitAt = i + 1;
+        break;
+      }
+    }
+
+    boxes = [
+      ...boxes.slice(0, bestIndex),
+      box.slice(0, splitAt),
+      box.slice(splitAt),
+      ...boxes.slice(bestIndex + 1)
+    ];
+  }
+
+  return boxes.map(box => {
+    let n = 0, r = 0, g = 0, b = 0;
+    for (const key of box) {
+      n += counts[key];
+      r += sums[key * 3];
+      g += sums[key * 3 + 1];
+      b += sums[key * 3 + 2];
+    }
+    n = Math.max(1, n);
+    return (Math.round(r / n) << 16) | (Math.round(g / n) << 8) | Math.round(b / n);
+  });
+};
+
+const nearestColor = (palette: number[], r: number, g: number, b: number): number => {
+  let best = 0;
+  let bestDist = Infinity;
+  for (let i = 0; i < palette.length; i++) {
+    const c = palette[i];
+    const dr = ((c >> 16) & 0xff) - r;
+    const dg = ((c >> 8) & 0xff) - g;
+    const db = (c & 0xff) - b;
+    const dist = dr * dr + dg * dg + db * db;
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = i;
+    }
+  }
+  return best;
+};
+
+/**
+ * Builds a local palette for one frame and maps every pixel to it.
+ * Frames with few colors (e.g. pixel art) get an exact palette; others go through median cut.
+ */
+const quantizeFrame = (pixels: Uint8ClampedArray, options: GifEncoderOptions): QuantizedFrame => {
+  const pixelCount = pixels.length / 4;
+  const colors = new Uint32Array(pixelCount);
+  const isTransparent = new Uint8Array(pixelCount);
+  const [bgR, bgG, bgB] = options.background;
+  let hasTransparent = false;
+
+  for (let i = 0; i < pixelCount; i++) {
+    let r = pixels[i * 4];
+    let g = pixels[i * 4 + 1];
+    let b = pixels[i * 4 + 2];
+    const a = pixels[i * 4 + 3];
+
+    if (options.transparent) {
+      if (a < ALPHA_THRESHOLD) {
+        isTransparent[i] = 1;
+        hasTransparent = true;
+        continue;
+      }
+    } else if (a < 255) {
+      // Flatten onto the matte
+      const t = a / 255;
+      r = Math.round(r * t + bgR * (1 - t));
+      g = Math.round(g * t + bgG * (1 - t));
+      b = Math.round(b * t + bgB * (1 - t));
+    }
+    colors[i] = (r << 16) | (g << 8) | b;
+  }
+
+  const maxColors = hasTransparent ? 255 : 256;
+  const indices = new Uint8Array(pixelCount);
+
+  // Exact palette when the frame fits
+  const exact = new Map<number, number>();
+  let fits = true;
+  for (let i = 0; i < pixelCount; i++) {
+    if (isTransparent[i]) continue;
+    if (!exact.has(colors[i])) {
+      if (exact.size >= maxColors) {
+        fits = false;
+        break;
+      }
+      exact.set(colors[i], exact.size);
+    }
+  }
+
+  let palette: number[];
+  if (fits) {
+    palette = Array.from(exact.keys());
+    for (let i = 0; i < pixelCount; i++) {
+      if (!isTransparent[i]) indices[i] = exact.get(colors[i])!;
+    }
+  } else {
+    const counts = new Uint32Array(1 << 15);
+    const sums = new Float64Array((1 << 15) * 3);
+    for (let i = 0; i < pixelCount; i++) {
+      if (isTransparent[i]) continue;
+      const c = colors[i];
+      const r = (c >> 16) & 0xff, g = (c >> 8) & 0xff, b = c & 0xff;
+      const key = toKey15(r, g, b);
+      counts[key]++;
+      sums[key * 3] += r;
+      sums[key * 3 + 1] += g;
+      sums[key * 3 + 2] += b;
+    }
+    palette = medianCut(counts, sums, maxColors);
+
+    const cache = new Int16Array(1 << 15).fill(-1);
+    for (let i = 0; i < pixelCount; i++) {
+      if (isTransparent[i]) continue;
+      const c = colors[i];
+      const r = (c >> 16) & 0xff, g = (c >> 8) & 0xff, b = c & 0xff;
+      const key = toKey15(r, g, b);
+      if (cache[key] === -1) cache[key] = nearestColor(palette, r, g, b);
+      indices[i] = cache[key];
+    }
+  }
+
+  if (palette.length === 0) palette = [0];
+
+  let transparentIndex = -1;
+  if (hasTransparent) {
+    transparentIndex = palette.length;
+    palette.push(0);
+    for (let i = 0; i < pixelCount; i++) {
+      if (isTransparent[i]) indices[i] = transparentIndex;
+    }
+  }
+
+  return { palette, indices, transparentIndex };
+};
+
+// -- LZW --
+
+/**
+ * GIF-flavoured LZW: variable code size up to 12 bits, packed LSB-first into 255-byte sub-blocks.
+ */
+const writeLzwData = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  out.writeByte(minCodeSize);
+
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = eoiCode + 1;
+  let resetPending = false;
+  const dictionary = new Map<number, number>();
+
+  const block: number[] = [];
+  let accum = 0;
+  let accumBits = 0;
+
+  const flushBlock = () => {
+    if (block.length === 0) return;
+    out.writeByte(block.length);
+    out.writeBytes(block);
+    block.length = 0;
+  };
+
+  const pushByte = (value: number) => {
+    block.push(value);
+    if (block.length === 255) flushBlock();
+  };
+
+  const writeCode = (code: number) => {
+    accum |= code << accumBits;
+    accumBits += codeSize;
+    while (accumBits >= 8) {
+      pushByte(accum & 0xff);
+      accum >>>= 8;
+      accumBits -= 8;
+    }
+    // Code size changes take effect after the current code, matching decoders
+    if (resetPending) {
+      codeSize = minCodeSize + 1;
+      resetPending = false;
+    } else if (nextCode > (1 << codeSize) - 1 && codeSize < 12) {
+      codeSize++;
+    }
+  };
+
+  writeCode(clearCode);
+
+  if (indices.length > 0) {
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+      const k = indices[i];
+      const key = (prefix << 8) | k;
+      const existing = dictionary.get(key);
+      if (existing !== undefined) {
+        prefix = existing;
+        continue;
+      }
+      writeCode(prefix);
+      if (nextCode < MAX_LZW_CODE) {
+        dictionary.set(key, nextCode++);
+      } else {
+        // Table full: start over
+        dictionary.clear();
+        nextCode = eoiCode + 1;
+        resetPending = true;
+        writeCode(clearCode);
+      }
+      prefix = k;
+    }
+    writeCode(prefix);
+  }
+
+  writeCode(eoiCode);
+
+  if (accumBits > 0) pushByte(accum & 0xff);
+  flushBlock();
+  out.writeByte(0); // Block terminator
+};
+
+// -- Stream --
+
+/**
+ * Encodes RGBA frames into an animated GIF89a byte stream.
+ * Each frame carries its own local color table and delay.
+ */
+export const encodeGif = (
+  frames: GifFrame[],
+  options: GifEncoderOptions,
+  onProgress?: (progress: number) => void
+): Uint8Array => {
+  const out = new ByteWriter();
+  const { width, height } = options;
+
+  // Header + Logical Screen Descriptor (no global color table)
+  out.writeString('GIF89a');
+  out.writeShort(width);
+  out.writeShort(height);
+  out.writeByte(0);
+  out.writeByte(0); // Background color index
+  out.writeByte(0); // Pixel aspect ratio
+
+  // NETSCAPE2.0 looping extension
+  out.writeBytes([0x21, 0xff, 0x0b]);
+  out.writeString('NETSCAPE2.0');
+  out.writeBytes([0x03, 0x01]);
+  out.writeShort(options.loop);
+  out.writeByte(0);
+
+  frames.forEach((frame, index) => {
+    const { palette, indices, transparentIndex } = quantizeFrame(frame.data, options);
+
+    const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+    const tableSize = 1 << tableBits;
+
+    // Graphic Control Extension
+    // Transparent frames are restored to background so they don't stack on each other
+    const disposal = options.transparent ? 2 : 1;
+    out.writeBytes([0x21, 0xf9, 0x04]);
+    out.writeByte((disposal << 2) | (transparentIndex >= 0 ? 1 : 0));
+    out.writeShort(Math.max(2, Math.round(frame.delay / 10)));
+    out.writeByte(transparentIndex >= 0 ? transparentIndex : 0);
+    out.writeByte(0);
+
+    // Image Descriptor with local color table
+    out.writeByte(0x2c);
+    out.writeShort(0);
+    out.writeShort(0);
+    out.writeShort(width);
+    out.writeShort(height);
+    out.writeByte(0x80 | (tableBits - 1));
+
+    for (let i = 0; i < tableSize; i++) {
+      const c = palette[i] ?? 0;
+      out.writeBytes([(c >> 16) & 0xff, (c >> 8) & 0xff, c & 0xff]);
+    }
+
+    writeLzwData(out, indices, Math.max(2, tableBits));
+
+    onProgress?.((index + 1) / frames.length);
+  });
+
+  out.writeByte(0x3b); // Trailer
+  return out.toUint8Array();
+};
@@ -0,0 +1,23 @@
+import { encodeGif } from './gifEncoder';
+import type { GifWorkerRequest, GifWorkerResponse } from './gifEncoder';
+
+// The project compiles against the DOM lib, so narrow `self` to the worker API we use
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<GifWorkerRequest>) => void) | null;
+  postMessage: (message: GifWorkerResponse, transfer?: Transferable[]) => void;
+};
+
+workerScope.onmessage = (event) => {
+  const { options, frames } = event.data;
+  try {
+    const bytes = encodeGif(
+      frames.map(frame => ({ data: new Uint8ClampedArray(frame.buffer), delay: frame.delay })),
+      options,
+      (progress) => workerScope.postMessage({ type: 'progress', progress })
+    );
+    const buffer = bytes.buffer as ArrayBuffer;
+    workerScope.postMessage({ type: 'done', buffer }, [buffer]);
+  } catch (e: any) {
+    workerScope.postMessage({ type: 'error', message: e?.message || 'GIF encoding failed' });
+  }
+};
@@ -0,0 +1,161 @@
+import { getForegroundMask } from "./backgroundRemoval";
+import { readImageData } from "./frameRenderer";
+
+/**
+ * Offline grid detection.
+ * Foreground occupancy is projected onto each axis; a cell count is accepted when
+ * every cut line between cells falls into an (almost) empty gutter.
+ */
+
+export interface GridDetectionResult {
+  rows: number;
+  cols: number;
+  totalFrames: number;
+  confidence: number; // 0-1, how much the layout can be trusted
+}
+
+// Below this the caller should ask Gemini instead
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+const MAX_CELLS_PER_AXIS = 16;
+const MIN_CELL_SIZE = 8; // px
+const CLEAN_CUT = 0.02; // Max foreground fraction on a gutter line
+const FILLED_CELL = 0.005; // Min foreground fraction for a cell to hold a frame
+
+/**
+ * Fraction of foreground pixels on every column (axis 'x') or row (axis 'y').
+ */
+const projectOccupancy = (mask: Uint8Array, width: number, height: number, axis: 'x' | 'y'): Float32Array => {
+  const profile = new Float32Array(axis === 'x' ? width : height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) profile[axis === 'x' ? x : y]++;
+    }
+  }
+  const lineLength = axis === 'x' ? height : width;
+  for (let i = 0; i < profile.length; i++) profile[i] /= lineLength;
+  return profile;
+};
+
+/**
+ * Number of foreground runs separated by fully empty gutters.
+ */
+const countContentRuns = (profile: Float32Array): number => {
+  let runs = 0;
+  let inRun = false;
+  for (let i = 0; i < profile.length; i++) {
+    const occupied = profile[i] > 0;
+    if (occupied && !inRun) runs++;
+    inRun = occupied;
+  }
+  return runs;
+};
+
+interface AxisEstimate {
+  count: number;
+  confidence: number;
+}
+
+const estimateAxis = (profile: Float32Array): AxisEstimate => {
+  const length = profile.length;
+  const runs = countContentRuns(profile);
+  let best: { count: number; worstCut: number } | null = null;
+
+  for (let n = 2; n <= MAX_CELLS_PER_AXIS; n++) {
+    const cell = length / n;
+    if (cell < MIN_CELL_SIZE) break;
+    // Gutters may sit slightly off the ideal line (margins, rounding)
+    const window = Math.max(1, Math.round(cell * 0.04));
+
+    let worstCut = 0;
+    for (let k = 1; k < n; k++) {
+      const center = Math.round(k * cell);
+      let lowest = Infinity;
+      for (let i = Math.max(0, center - window); i <= Math.min(length - 1, center + window); i++) {
+        lowest = Math.min(lowest, profile[i]);
+      }
+      worstCut = Math.max(worstCut, lowest);
+    }
+    if (worstCut > CLEAN_CUT) continue;
+
+    // Every band along this axis must contain something
+    let allFilled = true;
+    for (let k = 0; k < n && allFilled; k++) {
+      let peak = 0;
+      for (let i = Math.floor(k * cell); i < Math.floor((k + 1) * cell); i++) peak = Math.max(peak, profile[i]);
+      if (peak === 0) allFilled = false;
+    }
+    if (!allFilled) continue;
+
+    // A count that matches the gutters wins; otherwise keep the finest clean split
+    if (!best || n === runs || best.count !== runs) {
+      best = { count: n, worstCut };
+    }
+  }
+
+  if (!best) {
+    // No clean split: either a single cell, or frames touch each other
+    return { count: 1, confidence: runs <= 1 ? 0.9 : 0.3 };
+  }
+
+  let confidence = 0.6;
+  if (best.count === runs) confidence += 0.3;
+  if (best.worstCut === 0) confidence += 0.1;
+  return { count: best.count, confidence };
+};
+
+/**
+ * Counts frames in reading order; trailing empty cells (partial last row) are dropped.
+ */
+const countFilledFrames = (mask: Uint8Array, width: number, height: number, rows: number, cols: number): number => {
+  const cellW = width / cols;
+  const cellH = height / rows;
+  let lastFilled = 0;
+
+  for (let index = 0; index < rows * cols; index++) {
+    const row = Math.floor(index / cols);
+    const col = index % cols;
+    const x0 = Math.floor(col * cellW), x1 = Math.floor((col + 1) * cellW);
+    const y0 = Math.floor(row * cellH), y1 = Math.floor((row + 1) * cellH);
+
+    let filled = 0;
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) filled += mask[y * width + x];
+    }
+    if (filled / Math.max(1, (x1 - x0) * (y1 - y0)) >= FILLED_CELL) lastFilled = index + 1;
+  }
+  return Math.max(1, lastFilled);
+};
+
+export const detectGrid = (imageData: ImageData): GridDetectionResult => {
+  const { width, height } = imageData;
+  const mask = getForegroundMask(imageData);
+
+  const colEstimate = estimateAxis(projectOccupancy(mask, width, height, 'x'));
+  const rowEstimate = estimateAxis(projectOccupancy(mask, width, height, 'y'));
+  const rows = rowEstimate.count;
+  const cols = colEstimate.count;
+
+  let confidence = Math.min(colEstimate.confidence, rowEstimate.confidence);
+
+  // An axis without cuts next to a split axis usually means frames touch there:
+  // strongly elongated cells are suspicious
+  const cellAspect = (width / cols) / (height / rows);
+  if ((cols === 1 && rows > 1 && cellAspect > 2) || (rows === 1 && cols > 1 && cellAspect < 0.5)) {
+    confidence = Math.min(confidence, 0.5);
+  }
+
+  // No separable background at all (e.g. full-bleed painting): nothing to go on
+  const coverage = mask.reduce((sum, v) => sum + v, 0) / mask.length;
+  if (coverage > 0.9) confidence = Math.min(confidence, 0.2);
+
+  return {
+    rows,
+    cols,
+    totalFrames: countFilledFrames(mask, width, height, rows, cols),
+    confidence: Math.round(confidence * 100) / 100
+  };
+};
+
+export const detectGridFromImage = (image: HTMLImageElement): GridDetectionResult =>
+  detectGrid(readImageData(image));
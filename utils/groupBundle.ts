@@ -0,0 +1,58 @@
+import { NodeGroup } from "../types";
+import { createZip, ZipEntry } from "./zip";
+import { getGroupName, getUniqueGroupFileStems, getExtensionForMimeType } from "./fileNames";
+
+/**
+ * Packs groups into one ZIP download with a folder per group:
+ *   <name>/<name>.png          sprite sheet
+ *   <name>/<name>-source.png   original template / GIF (when present)
+ *   <name>/<name>-<label>.gif  extra files, e.g. rendered animations
+ *   <name>/metadata.json       grid and timing settings
+ */
+
+export interface BundleFile {
+  label: string; // File name suffix, e.g. 'anim'
+  extension: string;
+  blob: Blob;
+}
+
+const urlToBytes = async (url: string): Promise<{ data: Uint8Array; type: string }> => {
+  const blob = await (await fetch(url)).blob();
+  return { data: new Uint8Array(await blob.arrayBuffer()), type: blob.type };
+};
+
+export const createGroupBundle = async (
+  groups: NodeGroup[],
+  extraFiles: Record<string, BundleFile[]> = {} // By group id
+): Promise<Blob> => {
+  const stems = getUniqueGroupFileStems(groups);
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+
+  for (const group of groups) {
+    const stem = stems[group.id];
+
+    if (group.imageUrl) {
+      const image = await urlToBytes(group.imageUrl);
+      entries.push({ name: `${stem}/${stem}.${getExtensionForMimeType(image.type)}`, data: image.data });
+    }
+    if (group.originalSourceUrl) {
+      const source = await urlToBytes(group.originalSourceUrl);
+      entries.push({ name: `${stem}/${stem}-source.${getExtensionForMimeType(source.type)}`, data: source.data });
+    }
+    for (const file of extraFiles[group.id] || []) {
+      entries.push({ name: `${stem}/${stem}-${file.label}.${file.extension}`, data: new Uint8Array(await file.blob.arrayBuffer()) });
+    }
+
+    const metadata = {
+      name: getGroupName(group),
+      id: group.id,
+      createdAt: new Date(group.createdAt).toISOString(),
+      dimensions: group.dimensions,
+      config: group.config
+    };
+    entries.push({ name: `${stem}/metadata.json`, data: encoder.encode(JSON.stringify(metadata, null, 2)) });
+  }
+
+  return createZip(entries);
+};
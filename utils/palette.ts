@@ -0,0 +1,230 @@
+import { getForegroundMask, toHexColor, parseHexColor, RGB } from "./backgroundRemoval";
+import { readImageData } from "./frameRenderer";
+import { medianCut, toKey15 } from "./gifEncoder";
+
+/**
+ * Palettes for character profiles and palette locking.
+ * Extraction is median-cut over the foreground pixels; the remap snaps the sprite to a
+ * fixed palette, optionally with 4x4 ordered (Bayer) dithering.
+ */
+
+export const DEFAULT_PALETTE_SIZE = 16;
+export const MAX_PALETTE_SIZE = 256;
+export const PALETTE_FILE_EXTENSIONS = ['.gpl', '.hex', '.pal'];
+
+const ALPHA_THRESHOLD = 10;
+
+/**
+ * Hex colors, most common first. Median cut over the foreground histogram, shared with
+ * the GIF encoder.
+ */
+export const extractPalette = (imageData: ImageData, maxColors = DEFAULT_PALETTE_SIZE): string[] => {
+  const { data } = imageData;
+  const mask = getForegroundMask(imageData);
+  const counts = new Uint32Array(1 << 15);
+  const sums = new Float64Array((1 << 15) * 3);
+  let total = 0;
+  for (let p = 0; p < mask.length; p++) {
+    const i = p * 4;
+    if (!mask[p] || data[i + 3] < ALPHA_THRESHOLD) continue;
+    const key = toKey15(data[i], data[i + 1], data[i + 2]);
+    counts[key]++;
+    sums[key * 3] += data[i];
+    sums[key * 3 + 1] += data[i + 1];
+    sums[key * 3 + 2] += data[i + 2];
+    total++;
+  }
+  if (total === 0) return [];
+
+  const palette = medianCut(counts, sums, Math.min(maxColors, MAX_PALETTE_SIZE));
+  const unpack = (c: number): RGB => [(c >> 16) & 0xff, (c >> 8) & 0xff, c & 0xff];
+
+  // Population of each palette color, for the ordering
+  const population = new Array(palette.length).fill(0);
+  for (let key = 0; key < counts.length; key++) {
+    if (!counts[key]) continue;
+    const r = sums[key * 3] / counts[key], g = sums[key * 3 + 1] / counts[key], b = sums[key * 3 + 2] / counts[key];
+    let best = 0, bestDistance = Infinity;
+    palette.forEach((c, index) => {
+      const [pr, pg, pb] = unpack(c);
+      const d = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+      if (d < bestDistance) { bestDistance = d; best = index; }
+    });
+    population[best] += counts[key];
+  }
+
+  const ordered = palette.map((c, index) => ({ c, n: population[index] })).sort((a, b) => b.n - a.n);
+  return Array.from(new Set(ordered.map(({ c }) => toHexColor(unpack(c)))));
+};
+
+export const extractPaletteFromImage = async (imageUrl: string, maxColors = DEFAULT_PALETTE_SIZE): Promise<string[]> => {
+  const img = new Image();
+  img.src = imageUrl;
+  await img.decode();
+  return extractPalette(readImageData(img), maxColors);
+};
+
+/**
+ * Prompt fragment that pins generations to a profile's colors.
+ */
+export const formatPalettePrompt = (palette: string[]): string =>
+  palette.length > 0 ? `Use only this color palette: ${palette.join(', ')}.` : '';
+
+// --- Palette files ---
+
+const parseRgbLines = (lines: string[]): string[] =>
+  lines.flatMap(line => {
+    const match = /^\s*(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})/.exec(line);
+    return match ? [toHexColor([Number(match[1]), Number(match[2]), Number(match[3])].map(c => Math.min(255, c)) as RGB)] : [];
+  });
+
+// GIMP: "GIMP Palette" header, optional Name/Columns lines, "# comments", then "R G B name"
+const parseGpl = (text: string): string[] => {
+  const lines = text.split(/\r?\n/);
+  if (!lines[0]?.trim().startsWith('GIMP Palette')) throw new Error("Not a GIMP palette file");
+  return parseRgbLines(lines.slice(1).filter(line => !line.trim().startsWith('#') && !/^\s*\w+:/.test(line)));
+};
+
+// Lospec style: one RRGGBB per line
+const parseHex = (text: string): string[] =>
+  text.split(/\r?\n/).flatMap(line => {
+    const color = parseHexColor(line.trim());
+    return color ? [toHexColor(color)] : [];
+  });
+
+// JASC-PAL text ("JASC-PAL", "0100", count, then "R G B") or Microsoft RIFF PAL
+const parsePal = (data: ArrayBuffer): string[] => {
+  const bytes = new Uint8Array(data);
+  const tag = String.fromCharCode(...bytes.slice(0, 4));
+
+  if (tag === 'RIFF') {
+    const view = new DataView(data);
+    for (let offset = 12; offset + 8 <= bytes.length;) {
+      const chunkId = String.fromCharCode(...bytes.slice(offset, offset + 4));
+      const chunkSize = view.getUint32(offset + 4, true);
+      if (chunkId === 'data') {
+        const count = view.getUint16(offset + 10, true);
+        const colors: string[] = [];
+        for (let i = 0; i < count; i++) {
+          const entry = offset + 12 + i * 4;
+          if (entry + 3 > bytes.length) break;
+          colors.push(toHexColor([bytes[entry], bytes[entry + 1], bytes[entry + 2]]));
+        }
+        return colors;
+      }
+      offset += 8 + chunkSize + (chunkSize % 2);
+    }
+    throw new Error("RIFF palette has no data chunk");
+  }
+
+  const lines = new TextDecoder().decode(bytes).split(/\r?\n/);
+  if (lines[0]?.trim() !== 'JASC-PAL') throw new Error("Not a JASC or RIFF palette file");
+  const count = parseInt(lines[2], 10);
+  return parseRgbLines(lines.slice(3)).slice(0, Number.isNaN(count) ? undefined : count);
+};
+
+/**
+ * Reads .gpl, .hex or .pal palettes. Duplicates are dropped and the size is capped.
+ */
+export const parsePaletteFile = async (file: File): Promise<string[]> => {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+  let colors: string[];
+  switch (extension) {
+    case '.gpl': colors = parseGpl(await file.text()); break;
+    case '.hex': colors = parseHex(await file.text()); break;
+    case '.pal': colors = parsePal(await file.arrayBuffer()); break;
+    default: throw new Error(`Unsupported palette file: ${file.name}`);
+  }
+  const unique = Array.from(new Set(colors)).slice(0, MAX_PALETTE_SIZE);
+  if (unique.length === 0) throw new Error("Palette file contains no colors");
+  return unique;
+};
+
+// --- Remap ---
+
+// 4x4 Bayer matrix, values 0-15
+const BAYER_4X4 = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5]
+];
+
+/**
+ * Typical distance between palette neighbours; the dither offset is scaled to it so
+ * sparse palettes dither more than dense ones.
+ */
+const getDitherSpread = (palette: RGB[]): number => {
+  if (palette.length < 2) return 0;
+  let total = 0;
+  palette.forEach((color, i) => {
+    let nearest = Infinity;
+    palette.forEach((other, j) => {
+      if (i === j) return;
+      nearest = Math.min(nearest, Math.hypot(color[0] - other[0], color[1] - other[1], color[2] - other[2]));
+    });
+    total += nearest;
+  });
+  return Math.min(64, total / palette.length);
+};
+
+/**
+ * Snaps the sprite pixels in place. The background is left alone so it stays
+ * uniform for background removal; alpha is kept.
+ */
+export const remapToPalette = (imageData: ImageData, hexPalette: string[], dither: boolean): void => {
+  const palette = hexPalette.map(parseHexColor).filter((c): c is RGB => c !== null);
+  if (palette.length === 0) return;
+
+  const { width, data } = imageData;
+  const mask = getForegroundMask(imageData);
+  const spread = dither ? getDitherSpread(palette) : 0;
+  const cache = new Map<number, number>(); // Packed RGB -> palette index
+
+  const nearest = (r: number, g: number, b: number): number => {
+    const key = (r << 16) | (g << 8) | b;
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+    let best = 0;
+    let bestDistance = Infinity;
+    palette.forEach(([pr, pg, pb], index) => {
+      const d = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+      if (d < bestDistance) {
+        bestDistance = d;
+        best = index;
+      }
+    });
+    cache.set(key, best);
+    return best;
+  };
+
+  for (let p = 0; p < mask.length; p++) {
+    const i = p * 4;
+    if (!mask[p] || data[i + 3] < ALPHA_THRESHOLD) continue;
+    const offset = spread ? (BAYER_4X4[Math.floor(p / width) % 4][p % width % 4] / 16 - 0.5) * spread : 0;
+    const clamp = (v: number) => Math.max(0, Math.min(255, Math.round(v + offset)));
+    const [r, g, b] = palette[nearest(clamp(data[i]), clamp(data[i + 1]), clamp(data[i + 2]))];
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+};
+
+/**
+ * Remapped copy of an image as a PNG data URL.
+ */
+export const remapImageToPalette = async (imageUrl: string, palette: string[], dither: boolean): Promise<string> => {
+  const img = new Image();
+  img.src = imageUrl;
+  await img.decode();
+  const imageData = readImageData(img);
+  remapToPalette(imageData, palette, dither);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create canvas context");
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,135 @@
+import { FrameRect } from "../types";
+import { parseHexColor, toHexColor } from "./backgroundRemoval";
+
+/**
+ * Pixel operations for the single-cell paint editor. Coordinates are cell pixels;
+ * an optional clip rect (the selection) limits every write.
+ */
+
+export type RGBA = [number, number, number, number];
+
+export const TRANSPARENT: RGBA = [0, 0, 0, 0];
+
+export const hexToRgba = (hex: string): RGBA => {
+  const rgb = parseHexColor(hex) || [0, 0, 0];
+  return [rgb[0], rgb[1], rgb[2], 255];
+};
+
+/**
+ * Hex color of a pixel, or null when it is transparent.
+ */
+export const getPixelHex = (imageData: ImageData, x: number, y: number): string | null => {
+  const i = (y * imageData.width + x) * 4;
+  const { data } = imageData;
+  return data[i + 3] === 0 ? null : toHexColor([data[i], data[i + 1], data[i + 2]]);
+};
+
+const isInside = (imageData: ImageData, x: number, y: number, clip: FrameRect | null): boolean =>
+  x >= 0 && y >= 0 && x < imageData.width && y < imageData.height &&
+  (!clip || (x >= clip.x && y >= clip.y && x < clip.x + clip.w && y < clip.y + clip.h));
+
+const setPixel = (imageData: ImageData, x: number, y: number, color: RGBA, clip: FrameRect | null) => {
+  if (!isInside(imageData, x, y, clip)) return;
+  imageData.data.set(color, (y * imageData.width + x) * 4);
+};
+
+/**
+ * Bresenham line, so fast pointer moves leave no gaps.
+ */
+export const drawLine = (imageData: ImageData, x0: number, y0: number, x1: number, y1: number, color: RGBA, clip: FrameRect | null = null) => {
+  const dx = Math.abs(x1 - x0), dy = -Math.abs(y1 - y0);
+  const sx = x0 < x1 ? 1 : -1, sy = y0 < y1 ? 1 : -1;
+  let error = dx + dy;
+  let x = x0, y = y0;
+  while (true) {
+    setPixel(imageData, x, y, color, clip);
+    if (x === x1 && y === y1) break;
+    const e2 = 2 * error;
+    if (e2 >= dy) { error += dy; x += sx; }
+    if (e2 <= dx) { error += dx; y += sy; }
+  }
+};
+
+export const fillRect = (imageData: ImageData, rect: FrameRect, color: RGBA) => {
+  for (let y = rect.y; y < rect.y + rect.h; y++) {
+    for (let x = rect.x; x < rect.x + rect.w; x++) setPixel(imageData, x, y, color, null);
+  }
+};
+
+/**
+ * 4-connected fill of the exact color under (x, y). Returns false when nothing changed.
+ */
+export const floodFill = (imageData: ImageData, x: number, y: number, color: RGBA, clip: FrameRect | null = null): boolean => {
+  if (!isInside(imageData, x, y, clip)) return false;
+  const { width, data } = imageData;
+  const start = (y * width + x) * 4;
+  const target = [data[start], data[start + 1], data[start + 2], data[start + 3]];
+  // Fully transparent pixels match regardless of their hidden RGB
+  const matches = (i: number) => target[3] === 0
+    ? data[i + 3] === 0
+    : data[i] === target[0] && data[i + 1] === target[1] && data[i + 2] === target[2] && data[i + 3] === target[3];
+  if (target.every((v, c) => v === color[c])) return false;
+
+  const visited = new Uint8Array(width * imageData.height);
+  const stack = [x, y];
+  while (stack.length > 0) {
+    const py = stack.pop()!;
+    const px = stack.pop()!;
+    if (!isInside(imageData, px, py, clip)) continue;
+    const p = py * width + px;
+    if (visited[p] || !matches(p * 4)) continue;
+    visited[p] = 1;
+    data.set(color, p * 4);
+    stack.push(px + 1, py, px - 1, py, px, py + 1, px, py - 1);
+  }
+  return true;
+};
+
+/**
+ * Selection rect spanning two cell pixels (both inclusive).
+ */
+export const rectFromPoints = (x0: number, y0: number, x1: number, y1: number): FrameRect => ({
+  x: Math.min(x0, x1),
+  y: Math.min(y0, y1),
+  w: Math.abs(x1 - x0) + 1,
+  h: Math.abs(y1 - y0) + 1
+});
+
+export const cloneImageData = (imageData: ImageData): ImageData =>
+  new ImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height);
+
+/**
+ * Uniform grid cells can have fractional bounds; painting needs whole sheet pixels.
+ * Edges are rounded (not the size), so neighbouring cells still meet.
+ */
+export const toPixelRect = (rect: FrameRect): FrameRect => {
+  const x = Math.round(rect.x);
+  const y = Math.round(rect.y);
+  return { x, y, w: Math.max(1, Math.round(rect.x + rect.w) - x), h: Math.max(1, Math.round(rect.y + rect.h) - y) };
+};
+
+// Expects a whole-pixel rect (see toPixelRect), so the cell is copied without resampling
+export const readFrameCell = (sheet: HTMLImageElement, rect: FrameRect): ImageData => {
+  const canvas = document.createElement('canvas');
+  canvas.width = rect.w;
+  canvas.height = rect.h;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create canvas context");
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(sheet, rect.x, rect.y, rect.w, rect.h, 0, 0, rect.w, rect.h);
+  return ctx.getImageData(0, 0, rect.w, rect.h);
+};
+
+/**
+ * New revision of the sheet with one cell replaced, as a PNG data URL.
+ */
+export const writeFrameCell = (sheet: HTMLImageElement, cell: ImageData, rect: FrameRect): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = sheet.naturalWidth;
+  canvas.height = sheet.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create canvas context");
+  ctx.drawImage(sheet, 0, 0);
+  ctx.putImageData(cell, rect.x, rect.y);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,235 @@
+import { SpriteConfig, FrameRect } from "../types";
+import { readImageData } from "./frameRenderer";
+
+/**
+ * "De-AI" pass for generated pixel art.
+ * Image models draw pixel art as blurry blocks of a non-integer size. The logical pixel
+ * grid is found from where colors change, every block is replaced by its dominant color,
+ * and the result is a true low-resolution sheet (one image pixel per logical pixel).
+ */
+
+export interface PixelGrid {
+  pixelSize: number; // Logical pixel size in source pixels (may be fractional)
+  offsetX: number; // First grid line (px)
+  offsetY: number;
+  confidence: number; // 0-1, share of color edges on the grid beyond chance
+}
+
+const MIN_PIXEL_SIZE = 2;
+const MAX_PIXEL_SIZE = 32;
+const PITCH_STEP = 0.05;
+const OFFSET_STEP = 0.5;
+const EDGE_THRESHOLD = 48; // Max channel difference that counts as a color change
+const EDGE_TOLERANCE = 1; // Edges within this distance of a grid line (blur) still count
+const ALPHA_THRESHOLD = 10;
+
+// Below this the image has no recognisable pixel grid (not pixel art, or already 1:1)
+export const MIN_PIXEL_GRID_CONFIDENCE = 0.15;
+
+/**
+ * Color-change strength between position i-1 and i along one axis.
+ */
+const edgeProfile = (imageData: ImageData, axis: 'x' | 'y'): Float32Array => {
+  const { width, height, data } = imageData;
+  const length = axis === 'x' ? width : height;
+  const profile = new Float32Array(length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pos = axis === 'x' ? x : y;
+      if (pos === 0) continue;
+      const i = (y * width + x) * 4;
+      const j = axis === 'x' ? i - 4 : i - width * 4;
+      const diff = Math.max(
+        Math.abs(data[i] - data[j]),
+        Math.abs(data[i + 1] - data[j + 1]),
+        Math.abs(data[i + 2] - data[j + 2]),
+        Math.abs(data[i + 3] - data[j + 3])
+      );
+      if (diff > EDGE_THRESHOLD) profile[pos]++;
+    }
+  }
+  return profile;
+};
+
+interface AxisFit {
+  offset: number;
+  captured: number; // Share of edge mass near grid lines
+}
+
+const fitAxis = (profile: Float32Array, total: number, pitch: number): AxisFit => {
+  let best: AxisFit = { offset: 0, captured: 0 };
+  if (total === 0) return best;
+
+  for (let offset = 0; offset < pitch; offset += OFFSET_STEP) {
+    let captured = 0;
+    let lastCounted = -1; // Each edge position is counted once, even if two lines reach it
+    for (let line = offset; line < profile.length; line += pitch) {
+      const from = Math.max(lastCounted + 1, Math.ceil(line - EDGE_TOLERANCE));
+      const to = Math.min(profile.length - 1, Math.floor(line + EDGE_TOLERANCE));
+      for (let i = from; i <= to; i++) captured += profile[i];
+      lastCounted = Math.max(lastCounted, to);
+    }
+    if (captured > best.captured) best = { offset, captured };
+  }
+  return { offset: best.offset, captured: best.captured / total };
+};
+
+/**
+ * Finds the logical pixel grid. Small pitches catch every edge by chance, so each pitch
+ * is scored by how much it captures beyond the share of positions its lines cover.
+ */
+export const detectPixelGrid = (imageData: ImageData): PixelGrid => {
+  const profileX = edgeProfile(imageData, 'x');
+  const profileY = edgeProfile(imageData, 'y');
+  const totalX = profileX.reduce((sum, v) => sum + v, 0);
+  const totalY = profileY.reduce((sum, v) => sum + v, 0);
+
+  let best: PixelGrid = { pixelSize: 1, offsetX: 0, offsetY: 0, confidence: 0 };
+  const maxPitch = Math.min(MAX_PIXEL_SIZE, imageData.width / 4, imageData.height / 4);
+
+  for (let pitch = MIN_PIXEL_SIZE; pitch <= maxPitch; pitch += PITCH_STEP) {
+    const chance = Math.min(1, (2 * EDGE_TOLERANCE + 1) / pitch);
+    const fitX = fitAxis(profileX, totalX, pitch);
+    const fitY = fitAxis(profileY, totalY, pitch);
+    const score = (fitX.captured + fitY.captured) / 2 - chance;
+    if (score > best.confidence) {
+      best = {
+        pixelSize: Math.round(pitch * 100) / 100,
+        offsetX: fitX.offset,
+        offsetY: fitY.offset,
+        confidence: Math.round(score * 100) / 100
+      };
+    }
+  }
+  return best;
+};
+
+/**
+ * Cell boundaries along one axis. Partial cells at the borders narrower than half a
+ * logical pixel are merged into their neighbour.
+ */
+const cellBounds = (length: number, pitch: number, offset: number): number[] => {
+  const bounds = [0];
+  for (let line = offset; line < length; line += pitch) {
+    if (line - bounds[bounds.length - 1] >= pitch / 2) bounds.push(line);
+  }
+  if (length - bounds[bounds.length - 1] < pitch / 2 && bounds.length > 1) bounds.pop();
+  bounds.push(length);
+  return bounds;
+};
+
+/**
+ * Most common color of the cell center (5-bit buckets, averaged inside the winning one).
+ * The outer fifth of each side is skipped: that is where the blur between blocks sits.
+ */
+const dominantColor = (imageData: ImageData, x0: number, x1: number, y0: number, y1: number): [number, number, number, number] => {
+  const { width, data } = imageData;
+  const insetX = (x1 - x0) * 0.2;
+  const insetY = (y1 - y0) * 0.2;
+  const left = Math.floor(x0 + insetX), right = Math.max(left + 1, Math.ceil(x1 - insetX));
+  const top = Math.floor(y0 + insetY), bottom = Math.max(top + 1, Math.ceil(y1 - insetY));
+
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number; a: number }>();
+  let transparent = 0;
+  let total = 0;
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const i = (y * width + x) * 4;
+      total++;
+      if (data[i + 3] < ALPHA_THRESHOLD) {
+        transparent++;
+        continue;
+      }
+      const key = ((data[i] >> 3) << 10) | ((data[i + 1] >> 3) << 5) | (data[i + 2] >> 3);
+      const bucket = buckets.get(key) || { count: 0, r: 0, g: 0, b: 0, a: 0 };
+      bucket.count++;
+      bucket.r += data[i];
+      bucket.g += data[i + 1];
+      bucket.b += data[i + 2];
+      bucket.a += data[i + 3];
+      buckets.set(key, bucket);
+    }
+  }
+
+  let best: { count: number; r: number; g: number; b: number; a: number } | null = null;
+  for (const bucket of buckets.values()) {
+    if (!best || bucket.count > best.count) best = bucket;
+  }
+  if (!best || transparent > total / 2) return [0, 0, 0, 0];
+  const { count, r, g, b, a } = best;
+  return [Math.round(r / count), Math.round(g / count), Math.round(b / count), Math.round(a / count)];
+};
+
+export const snapToPixelGrid = (imageData: ImageData, grid: PixelGrid): ImageData => {
+  const xs = cellBounds(imageData.width, grid.pixelSize, grid.offsetX);
+  const ys = cellBounds(imageData.height, grid.pixelSize, grid.offsetY);
+  const output = new ImageData(xs.length - 1, ys.length - 1);
+
+  for (let row = 0; row < ys.length - 1; row++) {
+    for (let col = 0; col < xs.length - 1; col++) {
+      const color = dominantColor(imageData, xs[col], xs[col + 1], ys[row], ys[row + 1]);
+      output.data.set(color, (row * output.width + col) * 4);
+    }
+  }
+  return output;
+};
+
+/**
+ * Moves every pixel-based setting to the low-res sheet. The export scale grows by the
+ * same factor (rounded to a whole number, so exports stay crisp).
+ */
+export const rescaleConfigForPixelSnap = (config: SpriteConfig, factorX: number, factorY: number): SpriteConfig => {
+  const scaleRect = (rect: FrameRect): FrameRect => ({
+    x: Math.round(rect.x * factorX),
+    y: Math.round(rect.y * factorY),
+    w: Math.max(1, Math.round(rect.w * factorX)),
+    h: Math.max(1, Math.round(rect.h * factorY))
+  });
+  const frameOffsets: SpriteConfig['frameOffsets'] = {};
+  (Object.entries(config.frameOffsets) as [string, { x: number; y: number }][]).forEach(([index, offset]) => {
+    frameOffsets[Number(index)] = { x: Math.round(offset.x * factorX), y: Math.round(offset.y * factorY) };
+  });
+
+  return {
+    ...config,
+    margin: Math.round(config.margin * factorX),
+    spacing: Math.round(config.spacing * factorX),
+    frameRects: config.frameRects?.map(scaleRect),
+    frameOffsets,
+    guides: config.guides && {
+      ...config.guides,
+      baseline: config.guides.baseline === null ? null : Math.round(config.guides.baseline * factorY)
+    },
+    scale: Math.max(1, Math.round(config.scale / factorX)),
+    scaleFilter: 'nearest'
+  };
+};
+
+export interface PixelSnapResult {
+  imageUrl: string; // PNG data URL
+  width: number;
+  height: number;
+  grid: PixelGrid;
+}
+
+/**
+ * Detects the grid and returns the low-res sheet, or null when no pixel grid was found.
+ */
+export const snapImageToPixelGrid = async (imageUrl: string): Promise<PixelSnapResult | null> => {
+  const img = new Image();
+  img.src = imageUrl;
+  await img.decode();
+  const source = readImageData(img);
+  const pixelGrid = detectPixelGrid(source);
+  if (pixelGrid.confidence < MIN_PIXEL_GRID_CONFIDENCE) return null;
+  const snapped = snapToPixelGrid(source, pixelGrid);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = snapped.width;
+  canvas.height = snapped.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create canvas context");
+  ctx.putImageData(snapped, 0, 0);
+  return { imageUrl: canvas.toDataURL('image/png'), width: snapped.width, height: snapped.height, grid: pixelGrid };
+};
@@ -0,0 +1,138 @@
+import { SpriteConfig, ImageDimensions, FrameRect } from "../types";
+
+/**
+ * Cell math shared by every consumer of a sprite sheet (preview, editors, exporters).
+ * Cells come from the uniform grid (minus outer margin and inter-cell spacing),
+ * unless a frame has its own rectangle in `frameRects`.
+ */
+
+export const getGridCell = (config: SpriteConfig, index: number): { row: number; col: number } =>
+  config.direction === 'column'
+    ? { row: index % config.rows, col: Math.floor(index / config.rows) }
+    : { row: Math.floor(index / config.cols), col: index % config.cols };
+
+export const getCellIndex = (config: SpriteConfig, row: number, col: number): number =>
+  config.direction === 'column' ? col * config.rows + row : row * config.cols + col;
+
+/**
+ * Size of one grid cell after removing margin and spacing.
+ */
+export const getUniformCellSize = (config: SpriteConfig, dimensions: ImageDimensions): { width: number; height: number } => {
+  const margin = config.margin || 0;
+  const spacing = config.spacing || 0;
+  return {
+    width: Math.max(1, (dimensions.width - 2 * margin - (config.cols - 1) * spacing) / config.cols),
+    height: Math.max(1, (dimensions.height - 2 * margin - (config.rows - 1) * spacing) / config.rows)
+  };
+};
+
+export const getUniformCellRect = (config: SpriteConfig, dimensions: ImageDimensions, row: number, col: number): FrameRect => {
+  const margin = config.margin || 0;
+  const spacing = config.spacing || 0;
+  const { width, height } = getUniformCellSize(config, dimensions);
+  return {
+    x: margin + col * (width + spacing),
+    y: margin + row * (height + spacing),
+    w: width,
+    h: height
+  };
+};
+
+/**
+ * Sheet rectangle of a frame: its explicit rect, or its uniform grid cell.
+ */
+export const getFrameRect = (config: SpriteConfig, dimensions: ImageDimensions, index: number): FrameRect => {
+  const explicit = config.frameRects?.[index];
+  if (explicit) return explicit;
+  const { row, col } = getGridCell(config, index);
+  return getUniformCellRect(config, dimensions, row, col);
+};
+
+/**
+ * Output frame size. Uneven cells are padded to the largest rect so every frame
+ * of an animation has the same canvas size.
+ */
+export const getFrameSize = (config: SpriteConfig, dimensions: ImageDimensions): { width: number; height: number } => {
+  if (!config.frameRects || config.frameRects.length === 0) {
+    return getUniformCellSize(config, dimensions);
+  }
+  let width = 1, height = 1;
+  for (let i = 0; i < config.totalFrames; i++) {
+    const rect = getFrameRect(config, dimensions, i);
+    width = Math.max(width, rect.w);
+    height = Math.max(height, rect.h);
+  }
+  return { width, height };
+};
+
+export interface FrameSlice {
+  sx: number; // Source rect in sheet pixels (frame offset applied)
+  sy: number;
+  sw: number;
+  sh: number;
+  dx: number; // Placement inside the output frame, in unscaled pixels
+  dy: number;
+}
+
+/**
+ * Where to read a frame from the sheet and where it lands in the output frame.
+ * Smaller rects are anchored bottom-center so characters keep their footing.
+ */
+export const getFrameSlice = (config: SpriteConfig, dimensions: ImageDimensions, index: number): FrameSlice => {
+  const rect = getFrameRect(config, dimensions, index);
+  const size = getFrameSize(config, dimensions);
+  const offset = config.frameOffsets?.[index] || { x: 0, y: 0 };
+  return {
+    // Source coordinates are the inverse of the visual offset
+    sx: rect.x - offset.x,
+    sy: rect.y - offset.y,
+    sw: rect.w,
+    sh: rect.h,
+    dx: (size.width - rect.w) / 2,
+    dy: size.height - rect.h
+  };
+};
+
+/**
+ * Explicit rects for every grid cell, seeded from the current slicing.
+ */
+export const getAllCellRects = (config: SpriteConfig, dimensions: ImageDimensions): FrameRect[] =>
+  Array.from({ length: config.rows * config.cols }, (_, i) => ({ ...getFrameRect(config, dimensions, i) }));
+
+/**
+ * Moves the boundary in front of column/row `boundary` (1..count-1) by `delta` pixels.
+ * Cells on both sides are resized so the spacing between them is preserved.
+ */
+export const moveCellBoundary = (
+  config: SpriteConfig,
+  dimensions: ImageDimensions,
+  axis: 'col' | 'row',
+  boundary: number,
+  delta: number
+): FrameRect[] => {
+  const rects = getAllCellRects(config, dimensions);
+  const minSize = 1;
+
+  // Clamp so neither neighbouring cell collapses
+  let clamped = delta;
+  rects.forEach((rect, i) => {
+    const cell = getGridCell(config, i);
+    const position = axis === 'col' ? cell.col : cell.row;
+    const size = axis === 'col' ? rect.w : rect.h;
+    if (position === boundary - 1) clamped = Math.max(clamped, minSize - size);
+    if (position === boundary) clamped = Math.min(clamped, size - minSize);
+  });
+
+  return rects.map((rect, i) => {
+    const cell = getGridCell(config, i);
+    const position = axis === 'col' ? cell.col : cell.row;
+    if (axis === 'col') {
+      if (position === boundary - 1) return { ...rect, w: rect.w + clamped };
+      if (position === boundary) return { ...rect, x: rect.x + clamped, w: rect.w - clamped };
+    } else {
+      if (position === boundary - 1) return { ...rect, h: rect.h + clamped };
+      if (position === boundary) return { ...rect, y: rect.y + clamped, h: rect.h - clamped };
+    }
+    return rect;
+  });
+};
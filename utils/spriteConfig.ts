@@ -0,0 +1,34 @@
+import { SpriteConfig } from "../types";
+import { DEFAULT_KEY_TOLERANCE } from "./backgroundRemoval";
+
+export const DEFAULT_SPRITE_CONFIG: SpriteConfig = {
+  rows: 4,
+  cols: 4,
+  totalFrames: 16,
+  fps: 12,
+  scale: 1,
+  scaleFilter: 'nearest',
+  autoTransparent: true,
+  keyColor: null,
+  keyTolerance: DEFAULT_KEY_TOLERANCE,
+  direction: 'row',
+  layout: 'grid',
+  margin: 0,
+  spacing: 0,
+  frameOffsets: {},
+  excludedFrames: [],
+  frameDurations: {}
+};
+
+/**
+ * Fills fields missing from configs saved by older versions with their defaults.
+ */
+export const normalizeSpriteConfig = (config: Partial<SpriteConfig> | null | undefined): SpriteConfig => {
+  const merged: SpriteConfig = { ...DEFAULT_SPRITE_CONFIG, ...(config || {}) };
+  return {
+    ...merged,
+    frameOffsets: merged.frameOffsets || {},
+    excludedFrames: merged.excludedFrames || [],
+    frameDurations: merged.frameDurations || {}
+  };
+};
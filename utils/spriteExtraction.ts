@@ -0,0 +1,185 @@
+import { FrameRect } from "../types";
+import { getForegroundMask } from "./backgroundRemoval";
+import { readImageData } from "./frameRenderer";
+
+/**
+ * Free-layout slicing for sheets without a grid.
+ * Sprites are found as connected foreground blobs (8-connectivity); small detached
+ * fragments (weapons, effects) are merged into the nearest sprite, and the result
+ * is ordered like text: top line first, left to right.
+ */
+
+export interface SpriteExtractionResult {
+  rects: FrameRect[];
+  rows: number; // Lines of sprites in reading order
+  cols: number; // Most sprites on one line
+}
+
+interface SpriteBlob {
+  x0: number;
+  y0: number;
+  x1: number; // Exclusive
+  y1: number;
+  area: number; // Foreground pixels
+}
+
+const NOISE_AREA = 4; // Specks dropped before grouping (compression noise)
+const MIN_BLOB_AREA = 16; // Isolated groups below this are noise
+const FRAGMENT_RATIO = 0.3; // Boxes smaller than this share of the median sprite count as fragments
+const FRAGMENT_REACH = 0.5; // Fragments attach within this share of the median sprite's short side
+
+const boxArea = (b: SpriteBlob) => (b.x1 - b.x0) * (b.y1 - b.y0);
+
+// Gap between two boxes (0 when they touch or overlap)
+const boxGap = (a: SpriteBlob, b: SpriteBlob) => Math.max(
+  0,
+  Math.max(a.x0, b.x0) - Math.min(a.x1, b.x1),
+  Math.max(a.y0, b.y0) - Math.min(a.y1, b.y1)
+);
+
+const mergeBlobs = (a: SpriteBlob, b: SpriteBlob): SpriteBlob => ({
+  x0: Math.min(a.x0, b.x0),
+  y0: Math.min(a.y0, b.y0),
+  x1: Math.max(a.x1, b.x1),
+  y1: Math.max(a.y1, b.y1),
+  area: a.area + b.area
+});
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] || 0;
+};
+
+const labelBlobs = (mask: Uint8Array, width: number, height: number): SpriteBlob[] => {
+  const visited = new Uint8Array(mask.length);
+  const blobs: SpriteBlob[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+
+    const blob: SpriteBlob = { x0: width, y0: height, x1: 0, y1: 0, area: 0 };
+    visited[start] = 1;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      const x = p % width;
+      const y = (p - x) / width;
+      blob.area++;
+      if (x < blob.x0) blob.x0 = x;
+      if (y < blob.y0) blob.y0 = y;
+      if (x + 1 > blob.x1) blob.x1 = x + 1;
+      if (y + 1 > blob.y1) blob.y1 = y + 1;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (mask[n] && !visited[n]) {
+            visited[n] = 1;
+            stack.push(n);
+          }
+        }
+      }
+    }
+    blobs.push(blob);
+  }
+  return blobs;
+};
+
+/**
+ * Merges overlapping boxes, then attaches small fragments to their nearest sprite.
+ */
+const groupFragments = (input: SpriteBlob[]): SpriteBlob[] => {
+  const blobs = [...input];
+
+  // Overlapping bounding boxes always belong together
+  let merged = true;
+  while (merged) {
+    merged = false;
+    for (let i = 0; i < blobs.length && !merged; i++) {
+      for (let j = i + 1; j < blobs.length; j++) {
+        if (boxGap(blobs[i], blobs[j]) === 0) {
+          blobs[i] = mergeBlobs(blobs[i], blobs[j]);
+          blobs.splice(j, 1);
+          merged = true;
+          break;
+        }
+      }
+    }
+  }
+
+  if (blobs.length < 2) return blobs;
+
+  const typicalArea = median(blobs.map(boxArea));
+  const isFragment = (b: SpriteBlob) => boxArea(b) < typicalArea * FRAGMENT_RATIO;
+  const sprites = blobs.filter(b => !isFragment(b));
+  if (sprites.length === 0) return blobs;
+
+  const typicalSide = median(sprites.map(b => Math.min(b.x1 - b.x0, b.y1 - b.y0)));
+  const reach = typicalSide * FRAGMENT_REACH;
+  const loose: SpriteBlob[] = [];
+
+  blobs.filter(isFragment).forEach(fragment => {
+    let nearest = -1;
+    let nearestGap = Infinity;
+    sprites.forEach((sprite, i) => {
+      const gap = boxGap(fragment, sprite);
+      if (gap < nearestGap) {
+        nearestGap = gap;
+        nearest = i;
+      }
+    });
+    if (nearest >= 0 && nearestGap <= reach) {
+      sprites[nearest] = mergeBlobs(sprites[nearest], fragment);
+    } else {
+      loose.push(fragment);
+    }
+  });
+
+  return [...sprites, ...loose];
+};
+
+/**
+ * Text-like order: a box joins the current line when its vertical center falls inside it.
+ */
+const orderReading = (blobs: SpriteBlob[]): SpriteBlob[][] => {
+  const lines: { y0: number; y1: number; items: SpriteBlob[] }[] = [];
+  [...blobs].sort((a, b) => a.y0 - b.y0).forEach(blob => {
+    const centerY = (blob.y0 + blob.y1) / 2;
+    const line = lines.find(l => centerY >= l.y0 && centerY < l.y1);
+    if (line) {
+      line.items.push(blob);
+      line.y0 = Math.min(line.y0, blob.y0);
+      line.y1 = Math.max(line.y1, blob.y1);
+    } else {
+      lines.push({ y0: blob.y0, y1: blob.y1, items: [blob] });
+    }
+  });
+  return lines
+    .sort((a, b) => a.y0 - b.y0)
+    .map(line => line.items.sort((a, b) => a.x0 - b.x0));
+};
+
+export const extractSprites = (imageData: ImageData): SpriteExtractionResult => {
+  const { width, height } = imageData;
+  const mask = getForegroundMask(imageData);
+
+  const blobs = groupFragments(labelBlobs(mask, width, height).filter(b => b.area >= NOISE_AREA))
+    .filter(b => b.area >= MIN_BLOB_AREA);
+  if (blobs.length === 0) {
+    throw new Error("No sprites found");
+  }
+
+  const lines = orderReading(blobs);
+  return {
+    rects: lines.flat().map(b => ({ x: b.x0, y: b.y0, w: b.x1 - b.x0, h: b.y1 - b.y0 })),
+    rows: lines.length,
+    cols: Math.max(...lines.map(line => line.length))
+  };
+};
+
+export const extractSpritesFromImage = (image: HTMLImageElement): SpriteExtractionResult =>
+  extractSprites(readImageData(image));
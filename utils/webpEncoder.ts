@@ -0,0 +1,104 @@
+import { RenderedAnimation, frameToBlob } from "./frameRenderer";
+
+/**
+ * Animated WebP writer.
+ * Frames are compressed by the browser's WebP encoder; their bitstream chunks
+ * (VP8/VP8L plus ALPH) are re-wrapped into an extended-format animation.
+ */
+
+interface RiffChunk {
+  type: string;
+  bytes: Uint8Array; // Whole chunk: header, payload and padding
+}
+
+const readUint32LE = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+const uint24LE = (value: number) => [value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff];
+const uint32LE = (value: number) => [value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff];
+
+const fourCC = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const parseWebpChunks = (bytes: Uint8Array): RiffChunk[] => {
+  if (fourCC(bytes, 0) !== 'RIFF' || fourCC(bytes, 8) !== 'WEBP') {
+    throw new Error("Invalid WebP data");
+  }
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = fourCC(bytes, offset);
+    const size = readUint32LE(bytes, offset + 4);
+    const padded = size + (size & 1);
+    chunks.push({ type, bytes: bytes.subarray(offset, offset + 8 + padded) });
+    offset += 8 + padded;
+  }
+  return chunks;
+};
+
+const buildChunk = (type: string, payload: ArrayLike<number>): Uint8Array => {
+  const padded = payload.length + (payload.length & 1);
+  const chunk = new Uint8Array(8 + padded);
+  for (let i = 0; i < 4; i++) chunk[i] = type.charCodeAt(i);
+  chunk.set(uint32LE(payload.length), 4);
+  chunk.set(payload, 8);
+  return chunk;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+export const encodeAnimatedWebp = async (
+  animation: RenderedAnimation,
+  onProgress: (progress: number) => void
+): Promise<Blob> => {
+  const { width, height, frames } = animation;
+  const frameChunks: Uint8Array[] = [];
+
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+    const blob = await frameToBlob(frame, 'image/webp', 1);
+    if (blob.type !== 'image/webp') {
+      throw new Error("This browser cannot encode WebP");
+    }
+    const chunks = parseWebpChunks(new Uint8Array(await blob.arrayBuffer()));
+    const bitstream = chunks.filter(c => c.type === 'ALPH' || c.type === 'VP8 ' || c.type === 'VP8L');
+    if (!bitstream.some(c => c.type !== 'ALPH')) {
+      throw new Error("WebP frame is missing image data");
+    }
+
+    // ANMF: position (/2), size - 1, duration, flags (no blending, no disposal)
+    const header = [
+      ...uint24LE(0),
+      ...uint24LE(0),
+      ...uint24LE(width - 1),
+      ...uint24LE(height - 1),
+      ...uint24LE(Math.max(1, Math.round(frame.delay))),
+      0b10
+    ];
+    frameChunks.push(buildChunk('ANMF', concat([new Uint8Array(header), ...bitstream.map(c => c.bytes)])));
+
+    onProgress(Math.round(((i + 1) / frames.length) * 100));
+  }
+
+  // VP8X: animation + alpha flags, canvas size - 1
+  const vp8x = buildChunk('VP8X', [0x12, 0, 0, 0, ...uint24LE(width - 1), ...uint24LE(height - 1)]);
+  // ANIM: transparent background, loop forever
+  const anim = buildChunk('ANIM', [0, 0, 0, 0, 0, 0]);
+
+  const body = concat([vp8x, anim, ...frameChunks]);
+  const riffHeader = new Uint8Array([
+    ...[0x52, 0x49, 0x46, 0x46], // RIFF
+    ...uint32LE(body.length + 4),
+    ...[0x57, 0x45, 0x42, 0x50]  // WEBP
+  ]);
+
+  return new Blob([riffHeader, body], { type: 'image/webp' });
+};
@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SPRITE_PROVIDER': JSON.stringify(env.SPRITE_PROVIDER),
+        'process.env.GEMINI_IMAGE_MODEL': JSON.stringify(env.GEMINI_IMAGE_MODEL),
+        'process.env.GEMINI_ANALYSIS_MODEL': JSON.stringify(env.GEMINI_ANALYSIS_MODEL)
       },
       resolve: {
         alias: {